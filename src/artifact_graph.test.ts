@@ -1,7 +1,21 @@
-import { ArtifactGraph, UniqueArtifact } from "./artifact_graph";
+import {
+  ArtifactBuilder,
+  ArtifactGraph,
+  UniqueArtifact,
+  inputRequired,
+} from "./artifact_graph";
 import { schema, TaskYieldUpdate } from "@ryukez/a2a-sdk";
 import { dataArtifact, tuplePartsArtifact } from "./artifact";
+import { MemoryArtifactStore } from "./store";
+import { MemoryArtifactCache } from "./cache";
+import { MemoryTracer } from "./tracing";
+import { artifactFingerprint } from "./fingerprint";
 import { z } from "zod";
+import {
+  BuilderTimeoutError,
+  GraphValidationError,
+  UndeclaredOutputError,
+} from "./errors";
 
 /* -------------------------------------------------- */
 /*                Artifact Definitions                 */
@@ -35,6 +49,7 @@ const drain = async (gen: AsyncGenerator<any>) => {
 /*                    Builders                        */
 /* -------------------------------------------------- */
 const step1Builder = {
+  name: "step1",
   inputs: () => [] as const,
   outputs: () => ["step1"] as const,
   build: async function* () {
@@ -48,6 +63,7 @@ const step1Builder = {
 };
 
 const step2Builder = {
+  name: "step2",
   inputs: () => ["step1"] as const,
   outputs: () => ["step2"] as const,
   build: async function* (ctx: any) {
@@ -63,14 +79,23 @@ const step2Builder = {
 /* -------------------------------------------------- */
 /*                  Graph Generator                   */
 /* -------------------------------------------------- */
-const createGraph = (builders: any[]) =>
-  new ArtifactGraph(
-    {
-      step1: (a: schema.Artifact) => new Step1Artifact(a),
-      step2: (a: schema.Artifact) => new Step2Artifact(a),
-    },
+const factories = {
+  step1: (a: schema.Artifact) => new Step1Artifact(a),
+  step2: (a: schema.Artifact) => new Step2Artifact(a),
+};
+
+// Only registers factories of artifacts the builders use, so that the graph is valid
+const createGraph = (builders: any[]) => {
+  const used = new Set(
+    builders.flatMap((b) => [...b.inputs(), ...b.outputs()])
+  );
+  return new ArtifactGraph(
+    Object.fromEntries(
+      Object.entries(factories).filter(([id]) => used.has(id))
+    ) as typeof factories,
     builders
   );
+};
 
 /* ================================================== */
 /*                     TEST SUITE                     */
@@ -140,6 +165,39 @@ describe("ArtifactGraph.run (with real schema import)", () => {
     );
   });
 
+  /* ---------- Structural Validation ---------- */
+  it("reports all structural problems at construction", () => {
+    const create = () =>
+      new ArtifactGraph(factories, [step1Builder, { ...step1Builder }], [
+        { inputs: ["step3"], if: () => true, then: ["step1"] },
+      ] as any);
+
+    expect(create).toThrow(GraphValidationError);
+    try {
+      create();
+    } catch (e) {
+      expect((e as GraphValidationError).issues.map((i) => i.type)).toEqual([
+        "duplicate-builder-name",
+        "duplicate-producer",
+        "orphan-factory",
+        "dangling-condition-reference",
+      ]);
+    }
+  });
+
+  it("validates graphs without throwing", () => {
+    expect(
+      ArtifactGraph.validate(factories, [step1Builder, step2Builder])
+    ).toEqual([]);
+    expect(ArtifactGraph.validate(factories, [step1Builder])).toEqual([
+      {
+        type: "orphan-factory",
+        artifact: "step2",
+        message: 'No builder produces artifact "step2"',
+      },
+    ]);
+  });
+
   /* ---------- Task/History Pass-through ---------- */
   it("passes task & history through to builder.build()", async () => {
     const hist: schema.Message[] = [
@@ -214,7 +272,7 @@ describe("ArtifactGraph.run (with real schema import)", () => {
 
       const yieldedIds: string[] = [];
       for await (const o of graph.run({ task: emptyTask() })) {
-        if ("parts" in o) {
+        if ("parts" in o && (o.metadata as any)["artifactGraph.id"]) {
           yieldedIds.push((o.metadata as any)["artifactGraph.id"]);
         }
       }
@@ -262,7 +320,7 @@ describe("ArtifactGraph.run (with real schema import)", () => {
 
       const yieldedIds: string[] = [];
       for await (const o of graph.run({ task: emptyTask() })) {
-        if ("parts" in o) {
+        if ("parts" in o && (o.metadata as any)["artifactGraph.id"]) {
           yieldedIds.push((o.metadata as any)["artifactGraph.id"]);
         }
       }
@@ -273,6 +331,1986 @@ describe("ArtifactGraph.run (with real schema import)", () => {
   });
 });
 
+/* ================================================== */
+/*             Else & Switch Conditions               */
+/* ================================================== */
+describe("ArtifactGraph.run with else and switch conditions", () => {
+  const Classified = dataArtifact("classified", z.object({ kind: z.string() }));
+  const Answer = tuplePartsArtifact("answer", ["text"] as const);
+  const Reply = tuplePartsArtifact("reply", ["text"] as const);
+  const Fallback = tuplePartsArtifact("fallback", ["text"] as const);
+
+  const factories = {
+    classified: (a: schema.Artifact) => new Classified(a),
+    answer: (a: schema.Artifact) => new Answer(a),
+    reply: (a: schema.Artifact) => new Reply(a),
+    fallback: (a: schema.Artifact) => new Fallback(a),
+  };
+
+  const builders = (kind: string) => [
+    {
+      name: "classify",
+      inputs: () => [] as const,
+      outputs: () => ["classified"] as const,
+      build: async function* () {
+        yield Classified.fromData({ data: { kind } });
+      },
+    },
+    ...(
+      [
+        ["answer", Answer],
+        ["reply", Reply],
+        ["fallback", Fallback],
+      ] as const
+    ).map(([id, Artifact]) => ({
+      name: id,
+      inputs: () => ["classified"] as const,
+      outputs: () => [id] as const,
+      build: async function* () {
+        yield Artifact.fromParts({ parts: [{ type: "text", text: id }] });
+      },
+    })),
+  ];
+
+  const run = async (graph: ArtifactGraph<any>, task = emptyTask()) => {
+    const outs: schema.Artifact[] = [];
+    for await (const o of graph.run({ task, history: [] })) {
+      if ("parts" in o) outs.push(o);
+    }
+    return outs;
+  };
+
+  const producedIds = async (graph: ArtifactGraph<any>) =>
+    (await run(graph))
+      .map((a) => (a.metadata as any)["artifactGraph.id"])
+      .filter((id) => id !== undefined);
+
+  const ifElse = {
+    inputs: ["classified"] as const,
+    if: ({ inputs }: any) => inputs.classified.parsed().kind === "question",
+    then: ["answer"] as const,
+    else: ["reply", "fallback"] as const,
+  };
+
+  const switchCond = {
+    inputs: ["classified"] as const,
+    switch: ({ inputs }: any) => inputs.classified.parsed().kind,
+    cases: { question: ["answer"], smalltalk: ["reply"] } as const,
+    default: ["fallback"] as const,
+  };
+
+  it("runs the then-branch when the predicate is true", async () => {
+    const graph = new ArtifactGraph(factories, builders("question"), [ifElse]);
+    expect(await producedIds(graph)).toEqual(["classified", "answer"]);
+  });
+
+  it("runs the else-branch when the predicate is false", async () => {
+    const graph = new ArtifactGraph(factories, builders("other"), [ifElse]);
+    expect(await producedIds(graph)).toEqual([
+      "classified",
+      "reply",
+      "fallback",
+    ]);
+  });
+
+  it("routes to the matching case or to default", async () => {
+    const smalltalk = new ArtifactGraph(factories, builders("smalltalk"), [
+      switchCond,
+    ]);
+    expect(await producedIds(smalltalk)).toEqual(["classified", "reply"]);
+
+    const other = new ArtifactGraph(factories, builders("other"), [switchCond]);
+    expect(await producedIds(other)).toEqual(["classified", "fallback"]);
+  });
+
+  it("reports the branch taken in the plan once it is recorded", async () => {
+    const graph = new ArtifactGraph(factories, builders("smalltalk"), [
+      switchCond,
+    ]);
+    const classified = Classified.fromData({ data: { kind: "smalltalk" } });
+    classified.artifact.metadata = { "artifactGraph.id": "classified" };
+
+    // The condition is not evaluated before the run
+    expect(
+      graph.plan({ task: { ...emptyTask(), artifacts: [classified.artifact] } })
+        .conditions
+    ).toEqual([{ condition: 0, branch: null }]);
+
+    const artifacts = await run(graph);
+    const plan = graph.plan({ task: { ...emptyTask(), artifacts } });
+    expect(plan.conditions).toEqual([{ condition: 0, branch: "smalltalk" }]);
+    // reply is already calculated, the other branches are still pending
+    expect(plan.conditional.map((c) => [c.builder, c.gates])).toEqual([
+      ["answer", [{ condition: 0, branch: "question" }]],
+      ["fallback", [{ condition: 0, branch: "default" }]],
+    ]);
+  });
+
+  it("rejects graphs where a builder needs exclusive branches", () => {
+    const combine = {
+      name: "combine",
+      inputs: () => ["answer", "reply"] as const,
+      outputs: () => ["fallback"] as const,
+      build: async function* () {},
+    };
+    expect(
+      () =>
+        new ArtifactGraph(
+          factories,
+          [...builders("question").slice(0, 3), combine],
+          [switchCond]
+        )
+    ).toThrow("Unreachable artifact(s): fallback");
+  });
+});
+
+/* ================================================== */
+/*                 Memoization Cache                  */
+/* ================================================== */
+describe("ArtifactGraph.run with a cache", () => {
+  it("reuses outputs built by another task with the same inputs", async () => {
+    const cache = new MemoryArtifactCache();
+    const createCachedGraph = () => {
+      const step2Build = jest.fn(step2Builder.build);
+      const graph = createGraph([
+        step1Builder,
+        { ...step2Builder, cache, build: step2Build },
+      ]);
+      return { graph, step2Build };
+    };
+
+    const first = createCachedGraph();
+    await drain(first.graph.run({ task: emptyTask() }));
+    expect(first.step2Build).toHaveBeenCalledTimes(1);
+
+    const second = createCachedGraph();
+    const updates: any[] = [];
+    for await (const o of second.graph.run({
+      task: { ...emptyTask(), id: "t2" },
+    })) {
+      updates.push(o);
+    }
+
+    expect(second.step2Build).not.toHaveBeenCalled();
+    const step2 = updates.find(
+      (u) => u.metadata?.["artifactGraph.id"] === "step2"
+    );
+    expect(step2.parts[0]).toEqual({ type: "data", data: { result: 2 } });
+    expect(
+      updates.some(
+        (u) =>
+          u.state === "working" &&
+          u.message.parts[0].text === "step2 reused cached outputs (cache hit)"
+      )
+    ).toBe(true);
+  });
+});
+
+/* ================================================== */
+/*                 Lifecycle Hooks                    */
+/* ================================================== */
+describe("ArtifactGraph.run with hooks", () => {
+  // Records every hook call as [hook, event]
+  const recordHooks = () => {
+    const calls: [string, any][] = [];
+    const record = (name: string) => (event: any) => {
+      calls.push([name, event]);
+    };
+    const hooks = {
+      onPlan: record("onPlan"),
+      onBuilderSkip: record("onBuilderSkip"),
+      onBuilderStart: record("onBuilderStart"),
+      onBuilderEnd: record("onBuilderEnd"),
+      onArtifact: record("onArtifact"),
+      onConditionEvaluated: record("onConditionEvaluated"),
+      onError: record("onError"),
+    };
+    return { calls, hooks };
+  };
+
+  it("notifies the plan, builders and artifacts in order", async () => {
+    const { calls, hooks } = recordHooks();
+    const graph = createGraph([step1Builder, step2Builder]);
+    await drain(graph.run({ task: emptyTask(), hooks }));
+
+    expect(
+      calls.map(([name, e]) => [name, e.builder, e.id].filter(Boolean))
+    ).toEqual([
+      ["onPlan"],
+      ["onBuilderStart", "step1"],
+      ["onArtifact", "step1", "step1"],
+      ["onBuilderEnd", "step1"],
+      ["onBuilderStart", "step2"],
+      ["onArtifact", "step2", "step2"],
+      ["onBuilderEnd", "step2"],
+    ]);
+    expect(calls[0][1].groups).toEqual([["step1"], ["step2"]]);
+    const end = calls[3][1];
+    expect(end.status).toBe("completed");
+    expect(typeof end.durationMs).toBe("number");
+  });
+
+  it("reports skipped builders and evaluated conditions", async () => {
+    const { calls, hooks } = recordHooks();
+    const graph = new ArtifactGraph(
+      factories,
+      [step1Builder, step2Builder],
+      [{ inputs: ["step1"] as const, if: () => false, then: ["step2"] }]
+    );
+    await drain(graph.run({ task: emptyTask(), hooks }));
+
+    expect(
+      calls.filter(([name]) =>
+        ["onConditionEvaluated", "onBuilderSkip"].includes(name)
+      )
+    ).toEqual([
+      [
+        "onConditionEvaluated",
+        { condition: 0, branch: "else", recorded: false },
+      ],
+      ["onBuilderSkip", { builder: "step2", reason: "condition" }],
+    ]);
+  });
+
+  it("reports failed attempts and the failure of the builder", async () => {
+    const { calls, hooks } = recordHooks();
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        build: async function* () {
+          throw new Error("always");
+        },
+      },
+    ]);
+
+    await expect(
+      drain(graph.run({ task: emptyTask(), hooks }))
+    ).rejects.toThrow("always");
+    expect(
+      calls
+        .filter(([name]) => name === "onError")
+        .map(([, e]) => [e.attempt, e.willRetry])
+    ).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+    const [name, end] = calls[calls.length - 1];
+    expect(name).toBe("onBuilderEnd");
+    expect(end.status).toBe("failed");
+    expect(end.error.message).toBe("always");
+  });
+});
+
+/* ================================================== */
+/*                     Tracing                        */
+/* ================================================== */
+describe("ArtifactGraph.run with a tracer", () => {
+  it("creates a root span with a child span per builder", async () => {
+    const tracer = new MemoryTracer();
+    const graph = createGraph([step1Builder, step2Builder]);
+    await drain(graph.run({ task: emptyTask(), tracer }));
+
+    const [root, ...children] = tracer.spans;
+    expect(root.name).toBe("ArtifactGraph.run");
+    expect(root.attributes).toEqual({
+      "artifactGraph.task": "t1",
+      "artifactGraph.status": "completed",
+    });
+    expect(tracer.children(root)).toEqual(children);
+    expect(children.map((s) => s.attributes)).toEqual([
+      {
+        "artifactGraph.builder": "step1",
+        "artifactGraph.inputs": [],
+        "artifactGraph.outputs": ["step1"],
+        "artifactGraph.status": "completed",
+      },
+      {
+        "artifactGraph.builder": "step2",
+        "artifactGraph.inputs": ["step1"],
+        "artifactGraph.outputs": ["step2"],
+        "artifactGraph.status": "completed",
+      },
+    ]);
+    expect(tracer.spans.every((s) => s.endTime !== undefined)).toBe(true);
+  });
+
+  it("traces conditions and skipped builders", async () => {
+    const tracer = new MemoryTracer();
+    const graph = new ArtifactGraph(
+      factories,
+      [step1Builder, step2Builder],
+      [{ inputs: ["step1"] as const, if: () => false, then: ["step2"] }]
+    );
+    await drain(graph.run({ task: emptyTask(), tracer }));
+
+    expect(
+      tracer.spans.slice(2).map((s) => [s.name, s.parent?.name, s.attributes])
+    ).toEqual([
+      [
+        "condition 1",
+        "ArtifactGraph.run",
+        {
+          "artifactGraph.condition": 0,
+          "artifactGraph.inputs": ["step1"],
+          "artifactGraph.branch": "else",
+          "artifactGraph.recorded": false,
+        },
+      ],
+      [
+        "builder step2",
+        "ArtifactGraph.run",
+        {
+          "artifactGraph.builder": "step2",
+          "artifactGraph.inputs": ["step1"],
+          "artifactGraph.outputs": ["step2"],
+          "artifactGraph.skipReason": "condition",
+        },
+      ],
+    ]);
+  });
+
+  it("records retries and failures", async () => {
+    const tracer = new MemoryTracer();
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        retry: { maxAttempts: 3, initialDelayMs: 1 },
+        build: async function* () {
+          throw new Error("always");
+        },
+      },
+    ]);
+
+    await expect(
+      drain(graph.run({ task: emptyTask(), tracer }))
+    ).rejects.toThrow("always");
+
+    const [root, builder] = tracer.spans;
+    expect(builder.attributes).toMatchObject({
+      "artifactGraph.retries": 2,
+      "artifactGraph.status": "failed",
+    });
+    expect(builder.status).toEqual({ code: 2, message: "always" });
+    expect(root.status).toEqual({ code: 2, message: "always" });
+    expect(root.endTime).toBeDefined();
+  });
+});
+
+/* ================================================== */
+/*                    Provenance                      */
+/* ================================================== */
+describe("ArtifactGraph.run provenance", () => {
+  it("stamps produced artifacts with their provenance", async () => {
+    let calls = 0;
+    const graph = createGraph([
+      step1Builder,
+      {
+        ...step2Builder,
+        version: "2",
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        build: async function* (ctx: any) {
+          if (++calls === 1) throw new Error("transient");
+          yield* step2Builder.build(ctx);
+        },
+      },
+    ]);
+    const task = emptyTask();
+    for await (const o of graph.run({ task })) {
+      if ("parts" in o) task.artifacts = [...(task.artifacts ?? []), o];
+    }
+
+    const [step1, step2] = task.artifacts!;
+    const provenance = step2.metadata!["artifactGraph.provenance"];
+    expect(provenance).toEqual({
+      builder: "step2",
+      version: "2",
+      inputs: [{ id: "step1", fingerprint: artifactFingerprint(step1) }],
+      startedAt: expect.any(String),
+      endedAt: expect.any(String),
+      attempts: 2,
+    });
+    expect(Date.parse(provenance.endedAt)).toBeGreaterThanOrEqual(
+      Date.parse(provenance.startedAt)
+    );
+    expect(step1.metadata!["artifactGraph.provenance"]).toMatchObject({
+      builder: "step1",
+      inputs: [],
+      attempts: 1,
+    });
+
+    const lineage = graph.lineage(task, "step2")!;
+    expect(lineage.provenance).toEqual(provenance);
+    expect(lineage.inputs.map((n) => [n.id, n.provenance?.builder])).toEqual([
+      ["step1", "step1"],
+    ]);
+  });
+});
+
+/* ================================================== */
+/*                  Artifact Store                    */
+/* ================================================== */
+describe("ArtifactGraph.run with an artifact store", () => {
+  it("saves produced artifacts and resumes from them", async () => {
+    const store = new MemoryArtifactStore();
+    const graph = createGraph([step1Builder, step2Builder]);
+    await drain(graph.run({ task: emptyTask(), store }));
+
+    expect(
+      (await store.load("t1")).map((a) => a.metadata?.["artifactGraph.id"])
+    ).toEqual(["step1", "step2"]);
+
+    // The task store dropped the artifacts, but the builders are not executed again
+    const step1Build = jest.fn(step1Builder.build);
+    const step2Build = jest.fn(step2Builder.build);
+    const resumed = createGraph([
+      { ...step1Builder, build: step1Build },
+      { ...step2Builder, build: step2Build },
+    ]);
+    await drain(resumed.run({ task: emptyTask(), store }));
+
+    expect(step1Build).not.toHaveBeenCalled();
+    expect(step2Build).not.toHaveBeenCalled();
+  });
+});
+
+/* ================================================== */
+/*                Streamed Artifacts                  */
+/* ================================================== */
+describe("ArtifactGraph.run with streamed artifacts", () => {
+  const Story = tuplePartsArtifact("story", ["text", "text", "text"] as const);
+  const Length = dataArtifact("length", z.object({ parts: z.number() }));
+
+  const chunk = (text: string, append: boolean, lastChunk: boolean) =>
+    new Story({ parts: [{ type: "text", text }], append, lastChunk });
+
+  const createStreamingGraph = (lastChunk = true) => {
+    const log: string[] = [];
+    const lengthBuild = jest.fn(async function* ({ inputs }: any) {
+      yield Length.fromData({
+        data: { parts: inputs.story.artifact.parts.length },
+      });
+    });
+    const graph = new ArtifactGraph(
+      {
+        story: (a: schema.Artifact) => new Story(a),
+        length: (a: schema.Artifact) => new Length(a),
+      },
+      [
+        {
+          name: "story",
+          inputs: () => [] as const,
+          outputs: () => ["story"] as const,
+          build: async function* () {
+            for (const [i, text] of ["once", "upon", "a time"].entries()) {
+              log.push(`chunk ${i}`);
+              yield chunk(text, i > 0, lastChunk && i === 2);
+            }
+          },
+        },
+        {
+          name: "length",
+          inputs: () => ["story"] as const,
+          outputs: () => ["length"] as const,
+          build: lengthBuild,
+        },
+      ]
+    );
+    return { graph, log, lengthBuild };
+  };
+
+  it("forwards chunks right away and passes the assembled artifact downstream", async () => {
+    const { graph, log } = createStreamingGraph();
+
+    const artifacts: schema.Artifact[] = [];
+    for await (const o of graph.run({ task: emptyTask() })) {
+      if ("parts" in o) {
+        log.push(`yield ${(o.parts[0] as any).text ?? "length"}`);
+        artifacts.push(o);
+      }
+    }
+
+    expect(log).toEqual([
+      "chunk 0",
+      "yield once",
+      "chunk 1",
+      "yield upon",
+      "chunk 2",
+      "yield a time",
+      "yield length",
+    ]);
+    expect(artifacts[3].parts[0]).toEqual({ type: "data", data: { parts: 3 } });
+  });
+
+  it("discards incomplete chunks when resuming", async () => {
+    const incomplete = createStreamingGraph(false);
+    const artifacts: schema.Artifact[] = [];
+    await expect(async () => {
+      for await (const o of incomplete.graph.run({ task: emptyTask() })) {
+        if ("parts" in o) artifacts.push(o);
+      }
+    }).rejects.toThrow("length: Artifact story is not found");
+    expect(artifacts).toHaveLength(3);
+
+    const { graph } = createStreamingGraph();
+    const plan = graph.plan({ task: { ...emptyTask(), artifacts } });
+    expect(plan.groups).toEqual([["story"], ["length"]]);
+  });
+});
+
+/* ================================================== */
+/*                  Input Required                    */
+/* ================================================== */
+describe("ArtifactGraph.run with input requests", () => {
+  const Approval = dataArtifact(
+    "approval",
+    z.object({ approved: z.boolean() })
+  );
+
+  const createApprovalGraph = () => {
+    const approvalBuild = jest.fn(async function* ({ input }: any) {
+      if (!input) {
+        yield inputRequired("Approve step1? (yes/no)");
+        return;
+      }
+      yield Approval.fromData({
+        data: { approved: input.parts[0].text === "yes" },
+      });
+    });
+    const step2Build = jest.fn(step2Builder.build);
+    const graph = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        approval: (a: schema.Artifact) => new Approval(a),
+        step2: (a: schema.Artifact) => new Step2Artifact(a),
+      },
+      [
+        step1Builder,
+        {
+          name: "approval",
+          inputs: () => ["step1"] as const,
+          outputs: () => ["approval"] as const,
+          build: approvalBuild,
+        },
+        {
+          ...step2Builder,
+          inputs: () => ["step1", "approval"] as const,
+          build: step2Build,
+        },
+      ]
+    );
+    return { graph, approvalBuild, step2Build };
+  };
+
+  const collect = async (gen: AsyncGenerator<any>) => {
+    const updates: any[] = [];
+    for await (const o of gen) updates.push(o);
+    return updates;
+  };
+
+  it("pauses the run with an input-required status", async () => {
+    const { graph, step2Build } = createApprovalGraph();
+
+    const updates = await collect(
+      graph.run({ task: emptyTask(), history: [], verbose: true })
+    );
+
+    const last = updates[updates.length - 1];
+    expect(last.state).toBe("input-required");
+    expect(last.message.parts[0].text).toBe("Approve step1? (yes/no)");
+    expect(last.message.metadata["artifactGraph.inputRequest"]).toBe(
+      "approval"
+    );
+    expect(step2Build).not.toHaveBeenCalled();
+  });
+
+  it("passes the reply to the builder on the next turn and continues", async () => {
+    const first = createApprovalGraph();
+    const updates = await collect(
+      first.graph.run({ task: emptyTask(), history: [] })
+    );
+    const request = updates[updates.length - 1];
+    const reply = { role: "user", parts: [{ type: "text", text: "yes" }] };
+
+    const second = createApprovalGraph();
+    const artifacts = updates.filter((u) => "parts" in u);
+    const resumed = await collect(
+      second.graph.run({
+        task: { ...emptyTask(), artifacts },
+        history: [request.message, reply] as schema.Message[],
+      })
+    );
+
+    expect(second.approvalBuild.mock.calls[0][0].input).toEqual(reply);
+    expect(second.step2Build).toHaveBeenCalledTimes(1);
+    const approval = resumed.find(
+      (u) => u.metadata?.["artifactGraph.id"] === "approval"
+    );
+    expect(approval.parts[0].data).toEqual({ approved: true });
+  });
+
+  it("ignores replies to requests made for other inputs", async () => {
+    const { graph, approvalBuild } = createApprovalGraph();
+    const request = {
+      role: "agent",
+      parts: [{ type: "text", text: "Approve step1? (yes/no)" }],
+      metadata: {
+        "artifactGraph.inputRequest": "approval",
+        "artifactGraph.fingerprint": "outdated",
+      },
+    };
+    const reply = { role: "user", parts: [{ type: "text", text: "yes" }] };
+
+    const updates = await collect(
+      graph.run({
+        task: emptyTask(),
+        history: [request, reply] as schema.Message[],
+      })
+    );
+
+    expect(approvalBuild.mock.calls[0][0].input).toBeUndefined();
+    expect(updates[updates.length - 1].state).toBe("input-required");
+  });
+});
+
+/* ================================================== */
+/*                      Loops                         */
+/* ================================================== */
+describe("ArtifactGraph.run with loop builders", () => {
+  const Draft = dataArtifact("draft", z.object({ version: z.number() }));
+
+  const createLoopGraph = (
+    approvedAt: number,
+    options: { maxIterations?: number; failAt?: number } = {}
+  ) => {
+    const build = jest.fn(async function* (ctx: any) {
+      if (ctx.iteration === options.failAt) throw new Error("boom");
+      const version = (ctx.previous?.draft.parsed().version ?? 0) + 1;
+      yield Draft.fromData({ data: { version } });
+    });
+    const graph = new ArtifactGraph(
+      {
+        draft: (a: schema.Artifact) => new Draft(a),
+        step2: (a: schema.Artifact) => new Step2Artifact(a),
+      },
+      [
+        {
+          name: "draft",
+          inputs: () => [] as const,
+          outputs: () => ["draft"] as const,
+          loop: {
+            maxIterations: options.maxIterations ?? 5,
+            until: ({ outputs }: any) =>
+              outputs.draft.parsed().version >= approvedAt,
+          },
+          build,
+        },
+        {
+          name: "step2",
+          inputs: () => ["draft"] as const,
+          outputs: () => ["step2"] as const,
+          build: async function* (ctx: any) {
+            yield new Step2Artifact({
+              parts: [
+                {
+                  type: "data",
+                  data: { result: ctx.inputs.draft.parsed().version },
+                },
+              ],
+            });
+          },
+        },
+      ]
+    );
+    return { graph, build };
+  };
+
+  const collect = async (gen: AsyncGenerator<any>) => {
+    const artifacts: schema.Artifact[] = [];
+    try {
+      for await (const o of gen) if ("parts" in o) artifacts.push(o);
+    } catch {
+      /* keep the artifacts produced before the failure */
+    }
+    return artifacts;
+  };
+
+  const byId = (artifacts: schema.Artifact[], id: string) =>
+    artifacts.filter((a) => a.metadata?.["artifactGraph.id"] === id);
+
+  it("iterates until the exit condition holds and passes the last outputs downstream", async () => {
+    const { graph, build } = createLoopGraph(3);
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    expect(build.mock.calls.map(([ctx]) => ctx.iteration)).toEqual([1, 2, 3]);
+    expect(
+      artifacts
+        .filter((a) => a.metadata?.["artifactGraph.iterationOf"] === "draft")
+        .map((a) => a.metadata?.["artifactGraph.iteration"])
+    ).toEqual([1, 2, 3]);
+    expect(byId(artifacts, "draft").map((a) => a.parts[0])).toEqual([
+      { type: "data", data: { version: 3 } },
+    ]);
+    expect(byId(artifacts, "step2")[0].parts[0]).toEqual({
+      type: "data",
+      data: { result: 3 },
+    });
+  });
+
+  it("stops after maxIterations", async () => {
+    const { graph, build } = createLoopGraph(10, { maxIterations: 2 });
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    expect(build).toHaveBeenCalledTimes(2);
+    expect(byId(artifacts, "draft")[0].parts[0]).toEqual({
+      type: "data",
+      data: { version: 2 },
+    });
+  });
+
+  it("continues from the last completed iteration when resuming", async () => {
+    const failing = createLoopGraph(3, { failAt: 3 });
+    const artifacts = await collect(failing.graph.run({ task: emptyTask() }));
+    expect(byId(artifacts, "draft")).toEqual([]);
+
+    const resumed = createLoopGraph(3);
+    const outs = await collect(
+      resumed.graph.run({ task: { ...emptyTask(), artifacts } })
+    );
+
+    expect(resumed.build).toHaveBeenCalledTimes(1);
+    const [ctx] = resumed.build.mock.calls[0];
+    expect(ctx.iteration).toBe(3);
+    expect(ctx.previous.draft.parsed()).toEqual({ version: 2 });
+    expect(byId(outs, "draft")[0].parts[0]).toEqual({
+      type: "data",
+      data: { version: 3 },
+    });
+  });
+
+  it("iterates from the start again when the output is invalidated", async () => {
+    const { graph, build } = createLoopGraph(2);
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    await collect(
+      graph.run({ task: { ...emptyTask(), artifacts }, invalidate: ["draft"] })
+    );
+
+    expect(build.mock.calls.map(([ctx]) => ctx.iteration)).toEqual([
+      1, 2, 1, 2,
+    ]);
+  });
+});
+
+/* ================================================== */
+/*                 Optional Inputs                    */
+/* ================================================== */
+describe("ArtifactGraph.run with optional inputs", () => {
+  const Enriched = tuplePartsArtifact("enriched", ["text"] as const);
+
+  const createOptionalGraph = (
+    withEnrichment: boolean,
+    step2Overrides: Partial<ArtifactBuilder<any, any, any>> = {},
+    conditions: any[] = []
+  ) => {
+    const build = jest.fn(async function* (ctx: any) {
+      const text = ctx.inputs.step2
+        ? `enriched with ${ctx.inputs.step2.artifact.parts[0].data.result}`
+        : "plain";
+      yield Enriched.fromParts({ parts: [{ type: "text", text }] });
+    });
+    const builders = [
+      step1Builder,
+      ...(withEnrichment ? [{ ...step2Builder, ...step2Overrides }] : []),
+      {
+        name: "enriched",
+        inputs: () => ["step1"] as const,
+        optionalInputs: () => ["step2"] as const,
+        outputs: () => ["enriched"] as const,
+        build,
+      },
+    ];
+    const graph = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        ...(withEnrichment
+          ? { step2: (a: schema.Artifact) => new Step2Artifact(a) }
+          : {}),
+        enriched: (a: schema.Artifact) => new Enriched(a),
+      } as any,
+      builders,
+      conditions
+    );
+    return { graph, build };
+  };
+
+  const enrichedText = async (
+    graph: ArtifactGraph<any>,
+    task = emptyTask()
+  ) => {
+    for await (const o of graph.run({ task })) {
+      if ("parts" in o && o.metadata?.["artifactGraph.id"] === "enriched") {
+        return (o.parts[0] as any).text;
+      }
+    }
+  };
+
+  it("waits for optional inputs produced in the same run", async () => {
+    const { graph } = createOptionalGraph(true);
+    expect(graph.plan({ task: emptyTask() }).groups).toEqual([
+      ["step1"],
+      ["step2"],
+      ["enriched"],
+    ]);
+    expect(await enrichedText(graph)).toBe("enriched with 2");
+  });
+
+  it("runs without optional inputs that are not produced", async () => {
+    const { graph } = createOptionalGraph(false);
+    expect(await enrichedText(graph)).toBe("plain");
+  });
+
+  describe("when resumed", () => {
+    // Runs the graph, recording the produced artifacts in the task
+    const runInto = async (graph: ArtifactGraph<any>, task: schema.Task) => {
+      for await (const o of graph.run({ task })) {
+        if ("parts" in o) task.artifacts = [...(task.artifacts ?? []), o];
+      }
+    };
+
+    it("does not rebuild consumers of optional inputs that stay absent", async () => {
+      const { graph, build } = createOptionalGraph(true, {}, [
+        { inputs: ["step1"], if: () => false, then: ["step2"] },
+      ]);
+
+      const task = emptyTask();
+      await runInto(graph, task);
+      expect(graph.plan({ task }).stale).toEqual([]);
+      await runInto(graph, task);
+      expect(build).toHaveBeenCalledTimes(1);
+    });
+
+    it("rebuilds consumers once an optional input is produced", async () => {
+      let calls = 0;
+      const { graph, build } = createOptionalGraph(true, {
+        onError: "continue",
+        build: async function* (ctx: any) {
+          if (++calls === 1) throw new Error("unavailable");
+          yield* step2Builder.build(ctx);
+        },
+      });
+
+      const task = emptyTask();
+      await runInto(graph, task);
+      await runInto(graph, task);
+      expect(build).toHaveBeenCalledTimes(2);
+      expect(build.mock.calls[1][0].inputs.step2).toBeDefined();
+    });
+  });
+});
+
+/* ================================================== */
+/*               Skipped Artifacts                    */
+/* ================================================== */
+describe("ArtifactGraph.run with skipped artifacts", () => {
+  const Step3 = tuplePartsArtifact("step3", ["text"] as const);
+
+  const createSkippingGraph = (
+    step3Builder: Partial<ArtifactBuilder<any, any, any>> = {}
+  ) => {
+    const build = jest.fn(async function* (_ctx: any) {
+      yield Step3.fromParts({ parts: [{ type: "text", text: "done" }] });
+    });
+    const graph = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        step2: (a: schema.Artifact) => new Step2Artifact(a),
+        step3: (a: schema.Artifact) => new Step3(a),
+      },
+      [
+        step1Builder,
+        step2Builder,
+        {
+          name: "step3",
+          inputs: () => ["step1", "step2"] as const,
+          outputs: () => ["step3"] as const,
+          build,
+          ...step3Builder,
+        },
+      ],
+      [{ inputs: ["step1"] as const, if: () => false, then: ["step2"] }]
+    );
+    return { graph, build };
+  };
+
+  const messages = async (gen: AsyncGenerator<any>) => {
+    const texts: string[] = [];
+    for await (const o of gen) {
+      if ("state" in o) texts.push(o.message.parts[0].text);
+    }
+    return texts;
+  };
+
+  it("skips builders depending on skipped artifacts transitively", async () => {
+    const { graph, build } = createSkippingGraph();
+
+    const texts = await messages(
+      graph.run({ task: emptyTask(), verbose: true })
+    );
+
+    expect(build).not.toHaveBeenCalled();
+    expect(texts).toContain(
+      "step3 skipped because its input(s) step2 were skipped"
+    );
+    const summary = texts[texts.length - 1];
+    expect(summary).toContain("Skipped by conditions: step2, step3");
+    expect(summary).toMatch(/Missing: \n/);
+  });
+
+  it("runs builders opting in without the skipped inputs", async () => {
+    const { graph, build } = createSkippingGraph({ onSkippedInputs: "run" });
+
+    await drain(graph.run({ task: emptyTask() }));
+
+    expect(build).toHaveBeenCalledTimes(1);
+    const { inputs } = build.mock.calls[0][0];
+    expect(Object.keys(inputs)).toEqual(["step1"]);
+  });
+
+  it("does not rebuild builders opting in when resumed", async () => {
+    const { graph, build } = createSkippingGraph({ onSkippedInputs: "run" });
+
+    const task = emptyTask();
+    for (let turn = 0; turn < 2; turn++) {
+      for await (const o of graph.run({ task })) {
+        if ("parts" in o) task.artifacts = [...(task.artifacts ?? []), o];
+      }
+      expect(graph.plan({ task }).stale).toEqual([]);
+    }
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+});
+
+/* ================================================== */
+/*                 Async Conditions                   */
+/* ================================================== */
+describe("ArtifactGraph.run with async conditions", () => {
+  const Flagged = tuplePartsArtifact("flagged", ["text"] as const);
+
+  const graphWith = (
+    predicate: (context: any) => Promise<boolean>,
+    flaggedBuild = jest.fn(async function* () {
+      yield Flagged.fromParts({ parts: [{ type: "text", text: "on" }] });
+    })
+  ) => ({
+    flaggedBuild,
+    graph: new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        flagged: (a: schema.Artifact) => new Flagged(a),
+      },
+      [
+        step1Builder,
+        {
+          name: "flagged",
+          inputs: () => ["step1"] as const,
+          outputs: () => ["flagged"] as const,
+          build: flaggedBuild,
+        },
+      ],
+      [{ inputs: ["step1"] as const, if: predicate, then: ["flagged"] }]
+    ),
+  });
+
+  const collect = async (gen: AsyncGenerator<any>) => {
+    const outs: schema.Artifact[] = [];
+    for await (const o of gen) if ("parts" in o) outs.push(o);
+    return outs;
+  };
+
+  it("awaits the predicate with the task and history context", async () => {
+    const task = emptyTask();
+    const history = [
+      { role: "user", parts: [{ type: "text", text: "enable it" }] },
+    ] as schema.Message[];
+    const predicate = jest.fn(async ({ history }: any) => {
+      await new Promise((r) => setTimeout(r, 5));
+      return history[0].parts[0].text === "enable it";
+    });
+    const { graph, flaggedBuild } = graphWith(predicate);
+
+    await collect(graph.run({ task, history }));
+
+    expect(predicate).toHaveBeenCalledWith(
+      expect.objectContaining({ task, history, inputs: expect.anything() })
+    );
+    expect(flaggedBuild).toHaveBeenCalledTimes(1);
+  });
+
+  it("records the result and reuses it when resuming", async () => {
+    const { graph } = graphWith(async () => false);
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    const record = artifacts.find(
+      (a) => a.metadata?.["artifactGraph.condition"] === 0
+    );
+    expect(record?.metadata?.["artifactGraph.branch"]).toBe("else");
+
+    // The predicate would now pass, but the recorded result is used
+    const predicate = jest.fn(async () => true);
+    const resumed = graphWith(predicate);
+    const outs = await collect(
+      resumed.graph.run({ task: { ...emptyTask(), artifacts } })
+    );
+
+    expect(predicate).not.toHaveBeenCalled();
+    expect(resumed.flaggedBuild).not.toHaveBeenCalled();
+    expect(outs).toEqual([]);
+  });
+
+  it("does not reuse the result recorded for another condition", async () => {
+    const { graph } = graphWith(async () => false);
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    // A condition inserted before the recorded one, gating the builder by its else-branch
+    const inserted = jest.fn(async () => true);
+    const recorded = jest.fn(async () => true);
+    const flaggedBuild = jest.fn(async function* () {
+      yield Flagged.fromParts({ parts: [{ type: "text", text: "on" }] });
+    });
+    const resumed = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        flagged: (a: schema.Artifact) => new Flagged(a),
+      },
+      [
+        step1Builder,
+        {
+          name: "flagged",
+          inputs: () => ["step1"] as const,
+          outputs: () => ["flagged"] as const,
+          build: flaggedBuild,
+        },
+      ],
+      [
+        {
+          inputs: ["step1"] as const,
+          if: inserted,
+          then: [],
+          else: ["flagged"],
+        },
+        { inputs: ["step1"] as const, if: recorded, then: ["flagged"] },
+      ]
+    );
+    await collect(resumed.run({ task: { ...emptyTask(), artifacts } }));
+
+    expect(inserted).toHaveBeenCalledTimes(1);
+    expect(recorded).not.toHaveBeenCalled();
+    expect(flaggedBuild).not.toHaveBeenCalled();
+  });
+
+  it("evaluates again when the condition's inputs have changed", async () => {
+    const { graph } = graphWith(async () => false);
+    const artifacts = await collect(graph.run({ task: emptyTask() }));
+
+    const step1 = artifacts.find(
+      (a) => a.metadata?.["artifactGraph.id"] === "step1"
+    )!;
+    const changed = {
+      ...step1,
+      parts: [{ type: "data", data: { result: 3 } }],
+    };
+
+    const predicate = jest.fn(async () => true);
+    const resumed = graphWith(predicate);
+    await collect(
+      resumed.graph.run({
+        task: {
+          ...emptyTask(),
+          artifacts: artifacts.map((a) => (a === step1 ? changed : a)),
+        } as schema.Task,
+      })
+    );
+
+    expect(predicate).toHaveBeenCalledTimes(1);
+    expect(resumed.flaggedBuild).toHaveBeenCalledTimes(1);
+  });
+});
+
+/* ================================================== */
+/*                Concurrent Execution                */
+/* ================================================== */
+describe("ArtifactGraph.run with concurrency", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  const createSlowBuilder = (
+    name: string,
+    Artifact: new (a: schema.Artifact) => UniqueArtifact,
+    delay: number,
+    log: string[]
+  ) => ({
+    name,
+    inputs: () => [] as const,
+    outputs: () => [name] as const,
+    build: async function* () {
+      log.push(`start:${name}`);
+      await sleep(delay);
+      log.push(`end:${name}`);
+      yield new Artifact({ parts: [] });
+    },
+  });
+
+  it("runs independent builders of a group concurrently", async () => {
+    const log: string[] = [];
+    const graph = createGraph([
+      createSlowBuilder("step1", Step1Artifact, 20, log),
+      createSlowBuilder("step2", Step2Artifact, 5, log),
+    ]);
+
+    const ids: string[] = [];
+    for await (const o of graph.run({ task: emptyTask(), concurrency: 2 })) {
+      if ("parts" in o) ids.push((o.metadata as any)["artifactGraph.id"]);
+    }
+
+    expect(log).toEqual([
+      "start:step1",
+      "start:step2",
+      "end:step2",
+      "end:step1",
+    ]);
+    expect(ids).toEqual(["step2", "step1"]);
+  });
+
+  it("runs builders sequentially by default", async () => {
+    const log: string[] = [];
+    const graph = createGraph([
+      createSlowBuilder("step1", Step1Artifact, 20, log),
+      createSlowBuilder("step2", Step2Artifact, 5, log),
+    ]);
+
+    await drain(graph.run({ task: emptyTask() }));
+    expect(log).toEqual([
+      "start:step1",
+      "end:step1",
+      "start:step2",
+      "end:step2",
+    ]);
+  });
+
+  it("fails with the error of the builder that threw", async () => {
+    const log: string[] = [];
+    const graph = createGraph([
+      createSlowBuilder("step1", Step1Artifact, 20, log),
+      {
+        name: "step2",
+        inputs: () => [] as const,
+        outputs: () => ["step2"] as const,
+        build: async function* () {
+          throw new Error("step2 failed");
+        },
+      },
+    ]);
+
+    await expect(
+      drain(graph.run({ task: emptyTask(), concurrency: 2 }))
+    ).rejects.toThrow("step2 failed");
+  });
+});
+
+/* ================================================== */
+/*                  Ready Scheduler                   */
+/* ================================================== */
+describe("ArtifactGraph.run with ready scheduler", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  const createBuilder = (
+    name: string,
+    inputs: readonly string[],
+    delay: number,
+    log: string[]
+  ) => ({
+    name,
+    inputs: () => inputs,
+    outputs: () => [name] as const,
+    build: async function* () {
+      log.push(`start:${name}`);
+      await sleep(delay);
+      log.push(`end:${name}`);
+      yield new UniqueArtifact(name, { parts: [] });
+    },
+  });
+
+  /*
+    slow (30ms) -> afterSlow
+    fast (5ms)  -> afterFast
+  */
+  const createDeepGraph = (log: string[]) =>
+    new ArtifactGraph(
+      {
+        slow: (a: schema.Artifact) => new UniqueArtifact("slow", a),
+        fast: (a: schema.Artifact) => new UniqueArtifact("fast", a),
+        afterSlow: (a: schema.Artifact) => new UniqueArtifact("afterSlow", a),
+        afterFast: (a: schema.Artifact) => new UniqueArtifact("afterFast", a),
+      },
+      [
+        createBuilder("slow", [], 30, log),
+        createBuilder("fast", [], 5, log),
+        createBuilder("afterSlow", ["slow"], 5, log),
+        createBuilder("afterFast", ["fast"], 5, log),
+      ]
+    );
+
+  it("starts a builder as soon as its inputs are available", async () => {
+    const log: string[] = [];
+    await drain(
+      createDeepGraph(log).run({
+        task: emptyTask(),
+        concurrency: 4,
+        scheduler: "ready",
+      })
+    );
+
+    expect(log.indexOf("end:afterFast")).toBeLessThan(log.indexOf("end:slow"));
+    expect(log.indexOf("start:afterSlow")).toBeGreaterThan(
+      log.indexOf("end:slow")
+    );
+  });
+
+  // "gated" has no inputs, but its condition reads "slow"
+  const createGatedGraph = (log: string[]) =>
+    new ArtifactGraph(
+      {
+        slow: (a: schema.Artifact) => new UniqueArtifact("slow", a),
+        gated: (a: schema.Artifact) => new UniqueArtifact("gated", a),
+      },
+      [createBuilder("gated", [], 5, log), createBuilder("slow", [], 10, log)],
+      [{ inputs: ["slow"], if: () => true, then: ["gated"] }]
+    );
+
+  it("waits for the inputs of the conditions gating a builder", async () => {
+    const log: string[] = [];
+    await drain(
+      createGatedGraph(log).run({
+        task: emptyTask(),
+        concurrency: 2,
+        scheduler: "ready",
+      })
+    );
+
+    expect(log).toEqual(["start:slow", "end:slow", "start:gated", "end:gated"]);
+  });
+
+  it("puts gated builders in a group after their condition inputs", async () => {
+    const log: string[] = [];
+    await drain(
+      createGatedGraph(log).run({ task: emptyTask(), concurrency: 2 })
+    );
+
+    expect(log).toEqual(["start:slow", "end:slow", "start:gated", "end:gated"]);
+  });
+
+  it("waits for the whole previous group with the groups scheduler", async () => {
+    const log: string[] = [];
+    await drain(
+      createDeepGraph(log).run({ task: emptyTask(), concurrency: 4 })
+    );
+
+    expect(log.indexOf("start:afterFast")).toBeGreaterThan(
+      log.indexOf("end:slow")
+    );
+  });
+});
+
+/* ================================================== */
+/*                    Cancellation                    */
+/* ================================================== */
+describe("ArtifactGraph.run with AbortSignal", () => {
+  it("stops scheduling builders and yields a canceled status", async () => {
+    const controller = new AbortController();
+    const step2Spy = jest.fn(step2Builder.build);
+    let builderSignal: AbortSignal | undefined;
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        build: async function* (ctx: any) {
+          builderSignal = ctx.signal;
+          yield new Step1Artifact({
+            parts: [{ type: "data", data: { result: 1 } }],
+          });
+          controller.abort();
+        },
+      },
+      { ...step2Builder, build: step2Spy },
+    ]);
+
+    const outs: any[] = [];
+    for await (const o of graph.run({
+      task: emptyTask(),
+      signal: controller.signal,
+    })) {
+      outs.push(o);
+    }
+
+    expect(step2Spy).not.toHaveBeenCalled();
+    expect(builderSignal?.aborted).toBe(true);
+    // Already produced artifacts are kept for resumption
+    expect(outs[0].metadata["artifactGraph.id"]).toBe("step1");
+    expect(outs[outs.length - 1].state).toBe("canceled");
+  });
+
+  it("stops waiting for running builders once aborted", async () => {
+    const controller = new AbortController();
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        build: async function* () {
+          // Never finishes on its own
+          await new Promise(() => {});
+        },
+      },
+    ]);
+
+    setTimeout(() => controller.abort(), 10);
+    const outs: any[] = [];
+    for await (const o of graph.run({
+      task: emptyTask(),
+      signal: controller.signal,
+    })) {
+      outs.push(o);
+    }
+
+    expect(outs).toEqual([expect.objectContaining({ state: "canceled" })]);
+  });
+});
+
+/* ================================================== */
+/*                 Retry & Timeout                    */
+/* ================================================== */
+describe("ArtifactGraph.run with retry policies", () => {
+  const textOf = (u: any): string | undefined => u.message?.parts[0]?.text;
+
+  it("retries a failing builder and reports each retry", async () => {
+    let calls = 0;
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        name: "step1",
+        retry: { maxAttempts: 3, initialDelayMs: 1 },
+        build: async function* () {
+          calls++;
+          if (calls < 3) throw new Error(`transient ${calls}`);
+          yield new Step1Artifact({ parts: [] });
+        },
+      },
+    ]);
+
+    const outs: any[] = [];
+    for await (const o of graph.run({ task: emptyTask() })) outs.push(o);
+
+    expect(calls).toBe(3);
+    expect(outs.map(textOf).filter(Boolean)).toEqual([
+      "step1 failed (attempt 1/3): transient 1. Retrying in 1ms",
+      "step1 failed (attempt 2/3): transient 2. Retrying in 2ms",
+    ]);
+    expect(outs[outs.length - 1].metadata["artifactGraph.id"]).toBe("step1");
+  });
+
+  it("throws once the attempts are exhausted", async () => {
+    const build = jest.fn(async function* () {
+      throw new Error("always");
+    });
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        build,
+      },
+    ]);
+
+    await expect(drain(graph.run({ task: emptyTask() }))).rejects.toThrow(
+      "always"
+    );
+    expect(build).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry errors that are not retryable", async () => {
+    const build = jest.fn(async function* () {
+      throw new Error("fatal");
+    });
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        retry: {
+          maxAttempts: 5,
+          initialDelayMs: 1,
+          retryable: (e: unknown) => (e as Error).message !== "fatal",
+        },
+        build,
+      },
+    ]);
+
+    await expect(drain(graph.run({ task: emptyTask() }))).rejects.toThrow(
+      "fatal"
+    );
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not start another attempt when canceled during the backoff", async () => {
+    const controller = new AbortController();
+    const build = jest.fn(async function* () {
+      // Canceled while waiting for the retry
+      setTimeout(() => controller.abort(), 5);
+      throw new Error("transient");
+    });
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        retry: { maxAttempts: 3, initialDelayMs: 50 },
+        build,
+      },
+    ]);
+
+    const outs: any[] = [];
+    for await (const o of graph.run({
+      task: emptyTask(),
+      signal: controller.signal,
+    })) {
+      outs.push(o);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(outs[outs.length - 1].state).toBe("canceled");
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out slow attempts and aborts their signal", async () => {
+    const signals: AbortSignal[] = [];
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        name: "step1",
+        timeoutMs: 10,
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        build: async function* (ctx: any) {
+          signals.push(ctx.signal);
+          await new Promise(() => {});
+        },
+      },
+    ]);
+
+    await expect(drain(graph.run({ task: emptyTask() }))).rejects.toThrow(
+      BuilderTimeoutError
+    );
+    expect(signals).toHaveLength(2);
+    expect(signals.every((s) => s.aborted)).toBe(true);
+  });
+});
+
+/* ================================================== */
+/*                  Error Policies                    */
+/* ================================================== */
+describe("ArtifactGraph.run with error policies", () => {
+  const Other = dataArtifact("other", z.object({ ok: z.boolean() }));
+  const failingStep1 = {
+    ...step1Builder,
+    build: async function* () {
+      throw new Error("boom");
+    },
+  };
+  const otherBuilder = {
+    name: "other",
+    inputs: () => [] as const,
+    outputs: () => ["other"] as const,
+    build: async function* () {
+      yield Other.fromData({ data: { ok: true } });
+    },
+  };
+  const createPolicyGraph = (step1: any) =>
+    new ArtifactGraph(
+      { ...factories, other: (a: schema.Artifact) => new Other(a) },
+      [step1, step2Builder, otherBuilder]
+    );
+
+  it("skips dependents of a failed builder and keeps running the others", async () => {
+    const graph = createPolicyGraph({ ...failingStep1, onError: "continue" });
+    const outs: any[] = [];
+    for await (const o of graph.run({ task: emptyTask(), verbose: true })) {
+      outs.push(o);
+    }
+
+    const ids = outs.map((o) => o.metadata?.["artifactGraph.id"]);
+    expect(ids).toContain("other");
+    expect(ids).not.toContain("step2");
+    const texts = outs
+      .filter((o) => "state" in o)
+      .map((o) => o.message.parts[0].text);
+    expect(texts).toContain("step1 failed: boom. Continuing without step1");
+    expect(texts).toContain(
+      "step2 skipped because its input(s) step1 failed to build"
+    );
+
+    // The run ends with a summary of the failures
+    const last = outs[outs.length - 1];
+    expect(last.state).toBe("failed");
+    expect(last.message.parts[0].text).toBe(
+      "1 builder(s) failed:\n  - step1: boom\nArtifacts not built: step1, step2"
+    );
+    expect(last.message.metadata["artifactGraph.failures"]).toEqual([
+      { builder: "step1", error: "boom" },
+    ]);
+  });
+
+  it("runs the fallback of a failed builder", async () => {
+    const fallback = {
+      ...step1Builder,
+      name: "step1Fallback",
+      build: async function* () {
+        yield new Step1Artifact({
+          parts: [{ type: "data", data: { result: 10 } }],
+        });
+      },
+    };
+    const graph = createPolicyGraph({ ...failingStep1, onError: { fallback } });
+    const outs: any[] = [];
+    for await (const o of graph.run({ task: emptyTask() })) outs.push(o);
+
+    const step2 = outs.find(
+      (o) => o.metadata?.["artifactGraph.id"] === "step2"
+    );
+    expect(step2.parts[0].data).toEqual({ result: 11 });
+    const step1 = outs.find(
+      (o) => o.metadata?.["artifactGraph.id"] === "step1"
+    );
+    expect(step1.metadata["artifactGraph.provenance"].builder).toBe(
+      "step1Fallback"
+    );
+    expect(
+      outs.some(
+        (o) =>
+          o.message?.parts[0].text ===
+          "step1 failed: boom. Running fallback step1Fallback"
+      )
+    ).toBe(true);
+    expect(outs.some((o) => o.state === "failed")).toBe(false);
+  });
+
+  it("does not run the builder or its fallback again when resumed", async () => {
+    const build = jest.fn(failingStep1.build);
+    const fallbackBuild = jest.fn(async function* () {
+      yield new Step1Artifact({
+        parts: [{ type: "data", data: { result: 10 } }],
+      });
+    });
+    const step2Build = jest.fn(step2Builder.build);
+    const graph = new ArtifactGraph(factories, [
+      {
+        ...failingStep1,
+        version: "2",
+        build,
+        onError: {
+          fallback: {
+            ...step1Builder,
+            name: "step1Fallback",
+            build: fallbackBuild,
+          },
+        },
+      },
+      { ...step2Builder, build: step2Build },
+    ]);
+
+    const task = emptyTask();
+    for (let turn = 0; turn < 2; turn++) {
+      for await (const o of graph.run({ task })) {
+        if ("parts" in o) task.artifacts = [...(task.artifacts ?? []), o];
+      }
+    }
+
+    expect(graph.plan({ task }).stale).toEqual([]);
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(fallbackBuild).toHaveBeenCalledTimes(1);
+    expect(step2Build).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies the error policy of the fallback when it fails too", async () => {
+    const graph = createPolicyGraph({
+      ...failingStep1,
+      onError: { fallback: { ...failingStep1, name: "step1Fallback" } },
+    });
+    await expect(drain(graph.run({ task: emptyTask() }))).rejects.toThrow(
+      "boom"
+    );
+  });
+});
+
+/* ================================================== */
+/*             Fingerprint Invalidation               */
+/* ================================================== */
+describe("ArtifactGraph.run invalidation of stale artifacts", () => {
+  // Runs step1 & step2 once and returns the produced artifacts
+  const produce = async () => {
+    const outs: schema.Artifact[] = [];
+    for await (const o of createGraph([step1Builder, step2Builder]).run({
+      task: emptyTask(),
+    })) {
+      if ("parts" in o) outs.push(o);
+    }
+    return outs;
+  };
+
+  const rerun = async (artifacts: schema.Artifact[], builders: any[]) => {
+    await drain(
+      createGraph(builders).run({ task: { ...emptyTask(), artifacts } })
+    );
+  };
+
+  it("records the inputs fingerprint in metadata", async () => {
+    const [step1, step2] = await produce();
+    expect(step1.metadata?.["artifactGraph.fingerprint"]).toEqual(
+      expect.any(String)
+    );
+    expect(step2.metadata?.["artifactGraph.fingerprint"]).toEqual(
+      expect.any(String)
+    );
+  });
+
+  it("skips builders whose inputs are unchanged", async () => {
+    const step1Spy = jest.fn(step1Builder.build);
+    const step2Spy = jest.fn(step2Builder.build);
+
+    await rerun(await produce(), [
+      { ...step1Builder, name: "step1", build: step1Spy },
+      { ...step2Builder, name: "step2", build: step2Spy },
+    ]);
+
+    expect(step1Spy).not.toHaveBeenCalled();
+    expect(step2Spy).not.toHaveBeenCalled();
+  });
+
+  it("recomputes a builder when its inputs have changed", async () => {
+    const [step1, step2] = await produce();
+    const changedStep1 = {
+      ...step1,
+      parts: [{ type: "data", data: { result: 10 } }],
+    } as schema.Artifact;
+
+    const step1Spy = jest.fn(step1Builder.build);
+    const step2Spy = jest.fn(step2Builder.build);
+    await rerun(
+      [changedStep1, step2],
+      [
+        { ...step1Builder, name: "step1", build: step1Spy },
+        { ...step2Builder, name: "step2", build: step2Spy },
+      ]
+    );
+
+    expect(step1Spy).not.toHaveBeenCalled();
+    expect(step2Spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("recomputes a builder when its version has changed", async () => {
+    const step2Spy = jest.fn(step2Builder.build);
+    await rerun(await produce(), [
+      { ...step1Builder, name: "step1" },
+      { ...step2Builder, name: "step2", version: "2", build: step2Spy },
+    ]);
+
+    expect(step2Spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("recomputes everything downstream of a builder that runs again", async () => {
+    const [, step2] = await produce();
+    const step2Spy = jest.fn(step2Builder.build);
+
+    // step1 is missing, so step2 must be rebuilt from the new step1
+    await rerun(
+      [step2],
+      [
+        { ...step1Builder, name: "step1" },
+        { ...step2Builder, name: "step2", build: step2Spy },
+      ]
+    );
+
+    expect(step2Spy).toHaveBeenCalledTimes(1);
+  });
+});
+
+/* ================================================== */
+/*                Explicit Invalidation               */
+/* ================================================== */
+describe("ArtifactGraph.run with invalidate", () => {
+  const produced = async () => {
+    const outs: schema.Artifact[] = [];
+    for await (const o of createGraph([step1Builder, step2Builder]).run({
+      task: emptyTask(),
+    })) {
+      if ("parts" in o) outs.push(o);
+    }
+    return outs;
+  };
+
+  const rerunWith = async (invalidate: string[]) => {
+    const build1 = jest.fn(step1Builder.build);
+    const build2 = jest.fn(step2Builder.build);
+    const graph = createGraph([
+      { ...step1Builder, name: "Step 1", build: build1 },
+      { ...step2Builder, name: "Step 2", build: build2 },
+    ]);
+    await drain(
+      graph.run({
+        task: { ...emptyTask(), artifacts: await produced() },
+        invalidate,
+      })
+    );
+    return [build1.mock.calls.length, build2.mock.calls.length];
+  };
+
+  it("recomputes an invalidated artifact and its descendants", async () => {
+    expect(await rerunWith(["step1"])).toEqual([1, 1]);
+  });
+
+  it("keeps artifacts upstream of the invalidated one", async () => {
+    expect(await rerunWith(["step2"])).toEqual([0, 1]);
+  });
+
+  it("accepts builder names", async () => {
+    expect(await rerunWith(["Step 1"])).toEqual([1, 1]);
+  });
+
+  it("throws on unknown ids", async () => {
+    await expect(rerunWith(["unknown"])).rejects.toThrow(
+      'Unknown artifact or builder to invalidate: "unknown"'
+    );
+  });
+});
+
+/* ================================================== */
+/*                Targeted Execution                  */
+/* ================================================== */
+describe("ArtifactGraph.run with targets", () => {
+  const step1Spy = () => jest.fn(step1Builder.build);
+  const step2Spy = () => jest.fn(step2Builder.build);
+
+  it("only runs builders the targets depend on", async () => {
+    const build1 = step1Spy();
+    const build2 = step2Spy();
+    const graph = createGraph([
+      { ...step1Builder, name: "step1", build: build1 },
+      { ...step2Builder, name: "step2", build: build2 },
+    ]);
+
+    const outs: any[] = [];
+    for await (const o of graph.run({
+      task: emptyTask(),
+      targets: ["step1"],
+      verbose: true,
+    })) {
+      outs.push(o);
+    }
+
+    expect(build1).toHaveBeenCalledTimes(1);
+    expect(build2).not.toHaveBeenCalled();
+    expect(outs[0].message.parts[0].text).toContain(
+      "Following builders are excluded, because the targets do not depend on them:\nstep2\n"
+    );
+  });
+
+  it("runs the producers of condition inputs gating required builders", async () => {
+    const build1 = step1Spy();
+    const graph = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        step2: (a: schema.Artifact) => new Step2Artifact(a),
+      },
+      [
+        { ...step1Builder, name: "step1", build: build1 },
+        {
+          ...step2Builder,
+          name: "step2",
+          inputs: () => [] as const,
+          build: async function* () {
+            yield new Step2Artifact({ parts: [] });
+          },
+        },
+      ],
+      [{ inputs: ["step1"] as const, if: () => true, then: ["step2"] as const }]
+    );
+
+    await drain(graph.run({ task: emptyTask(), targets: ["step2"] }));
+    expect(build1).toHaveBeenCalledTimes(1);
+  });
+});
+
+/* ================================================== */
+/*                  Execution Plan                    */
+/* ================================================== */
+describe("ArtifactGraph.plan", () => {
+  const step1Artifact: schema.Artifact = {
+    parts: [{ type: "data", data: { result: 1 } }],
+    metadata: { "artifactGraph.id": "step1" },
+  };
+
+  it("returns groups of builders without executing them", () => {
+    const build1 = jest.fn(step1Builder.build);
+    const graph = createGraph([
+      { ...step1Builder, name: "step1", build: build1 },
+      { ...step2Builder, name: "step2" },
+    ]);
+
+    expect(graph.plan({ task: emptyTask() })).toEqual({
+      groups: [["step1"], ["step2"]],
+      skipped: [],
+      stale: [],
+      conditional: [],
+      conditions: [],
+      missingInputs: [],
+    });
+    expect(build1).not.toHaveBeenCalled();
+  });
+
+  it("reports skipped builders with their reason", () => {
+    const graph = createGraph([
+      { ...step1Builder, name: "step1" },
+      { ...step2Builder, name: "step2" },
+    ]);
+
+    const plan = graph.plan({
+      task: { ...emptyTask(), artifacts: [step1Artifact] },
+    });
+    expect(plan.groups).toEqual([["step2"]]);
+    expect(plan.skipped).toEqual([{ builder: "step1", reason: "calculated" }]);
+
+    expect(graph.plan({ task: emptyTask(), targets: ["step1"] })).toEqual(
+      expect.objectContaining({
+        groups: [["step1"]],
+        skipped: [{ builder: "step2", reason: "excluded" }],
+      })
+    );
+  });
+
+  it("reports condition-gated builders and missing inputs", () => {
+    const graph = new ArtifactGraph(
+      {
+        step1: (a: schema.Artifact) => new Step1Artifact(a),
+        step2: (a: schema.Artifact) => new Step2Artifact(a),
+      },
+      [
+        { ...step1Builder, name: "step1" },
+        { ...step2Builder, name: "step2" },
+      ],
+      [{ inputs: ["step1"] as const, if: () => true, then: ["step2"] as const }]
+    );
+
+    const plan = graph.plan({ task: emptyTask(), targets: ["step2"] });
+    expect(plan.conditional).toEqual([
+      {
+        builder: "step2",
+        conditionInputs: ["step1"],
+        gates: [{ condition: 0, branch: "then" }],
+      },
+    ]);
+    // step1 is not built yet, so the branch is unknown
+    expect(plan.conditions).toEqual([{ condition: 0, branch: null }]);
+    expect(plan.missingInputs).toEqual([]);
+  });
+});
+
+/* ================================================== */
+/*                   Graph Export                     */
+/* ================================================== */
+describe("ArtifactGraph.toMermaid / toDot", () => {
+  const graph = new ArtifactGraph(
+    {
+      step1: (a: schema.Artifact) => new Step1Artifact(a),
+      step2: (a: schema.Artifact) => new Step2Artifact(a),
+    },
+    [
+      { ...step1Builder, name: "Step 1" },
+      { ...step2Builder, name: "Step 2" },
+    ],
+    [{ inputs: ["step1"] as const, if: () => true, then: ["step2"] as const }]
+  );
+
+  it("exports the structure of the graph", () => {
+    const mermaid = graph.toMermaid();
+    expect(mermaid).toContain('builder_0["Step 1"]');
+    expect(mermaid).toContain("builder_0 --> artifact_step1");
+    expect(mermaid).toContain("artifact_step1 --> builder_1");
+    expect(mermaid).toContain(
+      'artifact_step1 -.->|"condition 1: then"| builder_1'
+    );
+    expect(mermaid).not.toContain("classDef");
+
+    expect(graph.toDot()).toContain(
+      'artifact_step1 -> builder_1 [style=dashed, label="condition 1: then"];'
+    );
+  });
+
+  it("colours nodes by their state for a task", () => {
+    const mermaid = graph.toMermaid({
+      task: {
+        ...emptyTask(),
+        artifacts: [
+          {
+            parts: [{ type: "data", data: { result: 1 } }],
+            metadata: { "artifactGraph.id": "step1" },
+          },
+        ],
+      },
+    });
+
+    expect(mermaid).toContain("class artifact_step1 present");
+    expect(mermaid).toContain("class artifact_step2 missing");
+    expect(mermaid).toContain("class builder_0 skipped");
+  });
+});
+
+/* ================================================== */
+/*                Strict Output Mode                  */
+/* ================================================== */
+describe("ArtifactGraph.run in strict mode", () => {
+  it("rejects artifacts that are not declared as outputs", async () => {
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        build: async function* () {
+          yield new Step2Artifact({ parts: [] });
+        },
+      },
+    ]);
+
+    await expect(
+      drain(graph.run({ task: emptyTask(), strict: true }))
+    ).rejects.toThrow(new UndeclaredOutputError("step1", "step2"));
+  });
+
+  it("detects declared outputs that were not yielded", async () => {
+    const step2Spy = jest.fn(step2Builder.build);
+    const graph = createGraph([
+      {
+        ...step1Builder,
+        build: async function* () {
+          /* yields nothing */
+        },
+      },
+      { ...step2Builder, build: step2Spy },
+    ]);
+
+    await expect(
+      drain(graph.run({ task: emptyTask(), strict: true }))
+    ).rejects.toThrow(
+      "step1: Completed without yielding declared output(s) step1"
+    );
+    expect(step2Spy).not.toHaveBeenCalled();
+  });
+
+  it("accepts builders yielding exactly their outputs", async () => {
+    const graph = createGraph([step1Builder, step2Builder]);
+    await expect(
+      drain(graph.run({ task: emptyTask(), strict: true }))
+    ).resolves.toBeUndefined();
+  });
+});
+
 /* ================================================== */
 /*   tuplePartsArtifact & dataArtifact      */
 /* ================================================== */
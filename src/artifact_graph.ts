@@ -1,11 +1,46 @@
 import { schema, TaskYieldUpdate } from "@ryukez/a2a-sdk";
-import { sortBuilders, findUnreachableArtifacts } from "./graph";
+import {
+  sortBuilders,
+  builderDependencies,
+  findRequiredBuilders,
+  validateGraph,
+  builderGates,
+  fallbackOf,
+  builderInputs,
+} from "./graph";
+import { mergeJobs, scheduleJobs } from "./concurrency";
+import { retryDelay, sleep, withTimeout } from "./retry";
+import {
+  BuilderTimeoutError,
+  GraphIssue,
+  GraphValidationError,
+  MissingOutputError,
+  UndeclaredOutputError,
+} from "./errors";
+import {
+  artifactFingerprint,
+  cacheKey,
+  conditionFingerprint,
+  inputsFingerprint,
+} from "./fingerprint";
+import { GraphDescription, renderDot, renderMermaid } from "./export";
+import {
+  appendChunk,
+  assembleChunks,
+  completeArtifact,
+  isChunk,
+} from "./chunks";
+import type { ArtifactStore } from "./store";
+import type { ArtifactCache } from "./cache";
+import type { ArtifactGraphHooks } from "./hooks";
+import type { Span, Tracer } from "./tracing";
+import { LineageNode, Provenance, traceLineage } from "./provenance";
 
 export class UniqueArtifact<ID extends string = any> {
   constructor(public id: ID, public artifact: schema.Artifact) {}
 }
 
-type ArtifactRecord<All extends readonly UniqueArtifact[]> = {
+export type ArtifactRecord<All extends readonly UniqueArtifact[]> = {
   [A in All[number] as A["id"] & string]: A;
 };
 
@@ -13,20 +48,114 @@ export type ArtifactFactories<All extends readonly UniqueArtifact[]> = {
   [K in All[number] as K["id"] & string]: (artifact: schema.Artifact) => K;
 };
 
+/**
+ * Describes how a failed build is retried.
+ *
+ * @example
+ *   // 3 attempts, waiting 500ms then 1000ms, only for rate limit errors
+ *   { maxAttempts: 3, initialDelayMs: 500, retryable: (e) => e instanceof RateLimitError }
+ */
+export type RetryPolicy = {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds. Defaults to 1000 */
+  initialDelayMs?: number;
+  /** Factor applied to the delay after each retry. Defaults to 2 */
+  backoffFactor?: number;
+  /** Upper bound of the delay in milliseconds. Defaults to no limit */
+  maxDelayMs?: number;
+  /** Returns whether the error should be retried. Defaults to retrying every error */
+  retryable?: (error: unknown) => boolean;
+};
+
 export interface ArtifactBuilder<
   All extends readonly UniqueArtifact[],
   I extends readonly (keyof ArtifactRecord<All>)[] = any,
-  O extends readonly (keyof ArtifactRecord<All>)[] = any
+  O extends readonly (keyof ArtifactRecord<All>)[] = any,
+  P extends readonly (keyof ArtifactRecord<All>)[] = any
 > {
   name: string;
 
   inputs(): I;
   outputs(): O;
 
+  /**
+   * Inputs the builder uses when they exist, but does not require (optional).
+   * The builder waits for them when they are produced in the same run.
+   */
+  optionalInputs?(): P;
+
+  /** Retries failed builds within the same run (optional) */
+  retry?: RetryPolicy;
+
+  /** Maximum duration of a single build attempt in milliseconds (optional) */
+  timeoutMs?: number;
+
+  /**
+   * Version of the build logic (optional). Changing it invalidates artifacts
+   * built by previous versions when a task is resumed.
+   */
+  version?: string;
+
+  /**
+   * Memoizes the outputs across tasks (optional). A builder executed with the
+   * same name, `version` and input parts as before reuses the cached outputs
+   * instead of building them again.
+   */
+  cache?: ArtifactCache;
+
+  /**
+   * What to do when an input is absent because a condition skipped the builder
+   * producing it (directly or transitively):
+   * - `"skip"` (default): this builder is skipped as well.
+   * - `"run"`: this builder executes, without the skipped inputs in `inputs`.
+   */
+  onSkippedInputs?: "skip" | "run";
+
+  /**
+   * What to do when the build fails (after retries):
+   * - `"fail"` (default): the run throws the error.
+   * - `"continue"`: outputs it did not produce are marked as failed, builders
+   *   depending on them are skipped, and unrelated builders keep running. The
+   *   run ends with a `failed` status summarizing the failures.
+   * - `{ fallback }`: executes `fallback` instead, which produces the same
+   *   outputs from (a subset of) the inputs of this builder. Its outputs carry
+   *   the inputs fingerprint of this builder, so they are kept when resuming.
+   */
+  onError?: "fail" | "continue" | { fallback: ArtifactBuilder<All, any, O> };
+
+  /**
+   * Executes the build repeatedly (optional), e.g. to revise a draft until a
+   * critic is satisfied. Each iteration receives the outputs of the previous one
+   * in `previous`, and the loop ends once `until` returns true or after
+   * `maxIterations` iterations. Only the outputs of the last iteration are
+   * passed downstream.
+   */
+  loop?: {
+    maxIterations: number;
+    until(context: {
+      task: schema.Task;
+      history?: schema.Message[];
+      inputs: Pick<ArtifactRecord<All>, I[number]> &
+        Partial<Pick<ArtifactRecord<All>, P[number]>>;
+      outputs: Pick<ArtifactRecord<All>, O[number]>;
+      iteration: number;
+    }): boolean | Promise<boolean>;
+  };
+
   build(context: {
     task: schema.Task;
     history?: schema.Message[];
-    inputs: Pick<ArtifactRecord<All>, I[number]>;
+    inputs: Pick<ArtifactRecord<All>, I[number]> &
+      Partial<Pick<ArtifactRecord<All>, P[number]>>;
+    /** Aborted when the task is canceled. Builders should stop their work when it fires. */
+    signal?: AbortSignal;
+    /** Current iteration of a `loop` builder, starting at 1 */
+    iteration?: number;
+    /** Outputs of the previous iteration of a `loop` builder (absent in the first one) */
+    previous?: Pick<ArtifactRecord<All>, O[number]>;
+    /** The user's reply to the input this builder requested (see `inputRequired`) */
+    input?: schema.Message;
   }): AsyncGenerator<
     TaskYieldUpdate | ArtifactRecord<All>[O[number]],
     schema.Task | void,
@@ -38,15 +167,107 @@ export const defineBuilder =
   <All extends readonly UniqueArtifact[]>() =>
   <
     I extends readonly (keyof ArtifactRecord<All>)[],
-    O extends readonly (keyof ArtifactRecord<All>)[]
+    O extends readonly (keyof ArtifactRecord<All>)[],
+    P extends readonly (keyof ArtifactRecord<All>)[] = readonly []
   >(
-    cfg: ArtifactBuilder<All, I, O>
+    cfg: ArtifactBuilder<All, I, O, P>
   ) =>
     cfg;
 
+/**
+ * Status update requesting user input. When a builder yields it, the run pauses:
+ * no further builders are started and `run` ends with this `input-required`
+ * status. On the next turn the builder runs again and receives the user's reply
+ * as `input` in its build context.
+ *
+ * @example
+ *   async *build({ inputs, input }) {
+ *     if (!input) {
+ *       yield inputRequired("Shall I send this email? (yes/no)");
+ *       return;
+ *     }
+ *     yield ApprovalArtifact.fromData({ data: { approved: isYes(input) } });
+ *   }
+ */
+export const inputRequired = (text: string): TaskYieldUpdate => ({
+  state: "input-required",
+  message: { role: "agent", parts: [{ type: "text", text }] },
+});
+
 const isUniqueArtifact = (v: unknown): v is UniqueArtifact =>
   v instanceof UniqueArtifact;
 
+/** Saves the artifacts passing through to the store before forwarding them */
+async function* persisted<T>(
+  updates: AsyncGenerator<T, void, unknown>,
+  store: ArtifactStore | undefined,
+  taskId: string
+): AsyncGenerator<T, void, unknown> {
+  for await (const update of updates) {
+    if (store && typeof update === "object" && update && "parts" in update) {
+      await store.save(taskId, update as schema.Artifact);
+    }
+    yield update;
+  }
+}
+
+const isInputRequest = (
+  v: unknown
+): v is { state: "input-required"; message?: schema.Message | null } =>
+  typeof v === "object" &&
+  v !== null &&
+  (v as { state?: unknown }).state === "input-required";
+
+/**
+ * Returns the user's reply to the last input request of the builder, if it was
+ * made for the same inputs (identified by the fingerprint).
+ */
+const findInputReply = (
+  history: schema.Message[],
+  builderName: string,
+  fingerprint: string
+): schema.Message | undefined => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const metadata = history[i].metadata ?? {};
+    if (metadata["artifactGraph.inputRequest"] === builderName) {
+      return metadata["artifactGraph.fingerprint"] === fingerprint
+        ? history.slice(i + 1).find((m) => m.role === "user")
+        : undefined;
+    }
+  }
+  return undefined;
+};
+
+/** Attributes of the span of a builder */
+const builderAttributes = (builder: ArtifactBuilder<any, any, any>) => ({
+  "artifactGraph.builder": builder.name,
+  "artifactGraph.inputs": [...(builder.inputs() as readonly string[])],
+  "artifactGraph.outputs": [...(builder.outputs() as readonly string[])],
+});
+
+/** Marks a span as failed (status code 2 is OpenTelemetry's `SpanStatusCode.ERROR`) */
+const failSpan = (span: Span, error: unknown) => {
+  span.recordException(error);
+  span.setStatus({
+    code: 2,
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/** Returns the branch of the condition taken for the given context */
+const evaluateCondition = async (
+  cond: ArtifactCondition<any, any, any>,
+  context: ConditionContext<any, any>
+): Promise<string> => {
+  if ("switch" in cond) {
+    const key = await cond.switch(context);
+    return Object.prototype.hasOwnProperty.call(cond.cases, key)
+      ? key
+      : "default";
+  }
+  return (await cond.if(context)) ? "then" : "else";
+};
+
 /**
  * Helper to create a type-safe ArtifactCondition with full type inference.
  */
@@ -60,14 +281,198 @@ export const defineCondition =
   ) =>
     cfg;
 
+/**
+ * Gates builders on artifact values. A builder is gated by a branch when its
+ * inputs or outputs overlap with the branch's artifacts, and only executes when
+ * that branch is taken.
+ *
+ * - `if` / `then` / `else`: `then` is taken when the predicate returns true, `else` otherwise.
+ * - `switch` / `cases` / `default`: the case whose key `switch` returns is taken,
+ *   or `default` when no case matches.
+ *
+ * Predicates receive the same `task` / `history` context as builders and may be
+ * async. The branch taken is recorded in the task as an artifact, so a resumed
+ * run takes the same branch as long as the condition's inputs are unchanged.
+ *
+ * @example
+ *   defineCondition<Artifacts>()({
+ *     inputs: ["intent"] as const,
+ *     switch: async ({ inputs, history }) => classifyIntent(inputs.intent, history),
+ *     cases: { question: ["answer"], smalltalk: ["reply"] },
+ *     default: ["fallback"],
+ *   });
+ */
 export type ArtifactCondition<
   All extends readonly UniqueArtifact[],
   I extends readonly (keyof ArtifactRecord<All>)[] = any,
   O extends readonly (keyof ArtifactRecord<All>)[] = any
+> =
+  | {
+      inputs: I;
+      if: (context: ConditionContext<All, I>) => boolean | Promise<boolean>;
+      then: O;
+      else?: readonly (keyof ArtifactRecord<All>)[];
+    }
+  | {
+      inputs: I;
+      switch: (context: ConditionContext<All, I>) => string | Promise<string>;
+      cases: Record<string, readonly (keyof ArtifactRecord<All>)[]>;
+      default?: readonly (keyof ArtifactRecord<All>)[];
+    };
+
+/** Context passed to the predicates of a condition */
+type ConditionContext<
+  All extends readonly UniqueArtifact[],
+  I extends readonly (keyof ArtifactRecord<All>)[]
 > = {
-  inputs: I;
-  if: (context: { inputs: Pick<ArtifactRecord<All>, I[number]> }) => boolean;
-  then: O;
+  task: schema.Task;
+  history?: schema.Message[];
+  inputs: Pick<ArtifactRecord<All>, I[number]>;
+  /** Aborted when the task is canceled */
+  signal?: AbortSignal;
+};
+
+/** Output of an iteration of a loop builder, recorded in the task */
+type IterationRecord = {
+  iteration: number;
+  fingerprint: string;
+  artifact: schema.Artifact;
+};
+
+/** Options that decide which builders a run executes */
+export type PlanInput<Artifacts extends readonly UniqueArtifact[]> = {
+  task: schema.Task;
+  /**
+   * Artifacts to compute. When given, only the builders these artifacts
+   * (transitively) depend on are executed; the other builders are excluded.
+   */
+  targets?: readonly (keyof ArtifactRecord<Artifacts>)[];
+  /**
+   * Artifact ids or builder names to recompute. The matching artifacts, and
+   * every artifact derived from them, are discarded before the run.
+   */
+  invalidate?: readonly string[];
+};
+
+/** Execution plan of a run, as returned by `ArtifactGraph.plan` */
+export type ExecutionPlan = {
+  /**
+   * Names of the builders that will execute, grouped as returned by `sortBuilders`.
+   * Builders whose absent optional inputs (or inputs skipped by conditions, with
+   * `onSkippedInputs: "run"`) may be produced by the run are included; they reuse
+   * their outputs if these inputs turn out not to be produced.
+   */
+  groups: string[][];
+  /** Builders that will not execute, and why */
+  skipped: {
+    builder: string;
+    /**
+     * - `"excluded"`: the targets do not depend on the builder
+     * - `"calculated"`: all of its outputs already exist
+     */
+    reason: "excluded" | "calculated";
+  }[];
+  /** Builders executing again because their inputs have changed since their outputs were built */
+  stale: string[];
+  /**
+   * Builders gated by conditions, which are evaluated right before the builder executes.
+   * `gates` lists the condition branches (by condition index) that must be taken for the builder to execute.
+   */
+  conditional: {
+    builder: string;
+    conditionInputs: string[];
+    gates: { condition: number; branch: string }[];
+  }[];
+  /**
+   * Branch taken by each condition, by condition index, as recorded in the task.
+   * `null` when the condition has not been evaluated on its current inputs yet,
+   * or when some of its inputs are not final.
+   */
+  conditions: { condition: number; branch: string | null }[];
+  /** Artifacts required by a builder (or its conditions) that neither exist nor will be produced */
+  missingInputs: { builder: string; artifacts: string[] }[];
+};
+
+/** Options of `run` */
+export type RunInput<Artifacts extends readonly UniqueArtifact[]> =
+  PlanInput<Artifacts> & {
+    history?: schema.Message[];
+    verbose?: boolean;
+    /**
+     * Maximum number of builders executed at the same time.
+     * Defaults to 1 (sequential execution).
+     */
+    concurrency?: number;
+    /**
+     * How builders are scheduled:
+     * - `"groups"` (default): runs the groups returned by `sortBuilders` one after another.
+     * - `"ready"`: starts each builder as soon as all of its inputs are available,
+     *   without waiting for unrelated builders of the previous group.
+     */
+    scheduler?: "groups" | "ready";
+    /**
+     * Cancels the run. No new builders are started once aborted, and a final
+     * `canceled` status is yielded. Artifacts produced so far are kept, so the
+     * task can be resumed later.
+     */
+    signal?: AbortSignal;
+    /**
+     * Enforces the builders' declared outputs: yielding an artifact that is not
+     * in `outputs()` throws an `UndeclaredOutputError`, and completing without
+     * yielding all of them throws a `MissingOutputError`. Defaults to false.
+     */
+    strict?: boolean;
+    /**
+     * Store every produced artifact is saved to. Artifacts saved for the task
+     * are loaded on startup, in addition to `task.artifacts`.
+     */
+    store?: ArtifactStore;
+    /** Callbacks notified of the lifecycle of the run, e.g. for metrics and logs */
+    hooks?: ArtifactGraphHooks;
+    /**
+     * Traces the run as a root span, with a child span per builder and
+     * condition. Spans can be recorded by a `MemoryTracer`, or exported with
+     * OpenTelemetry.
+     */
+    tracer?: Tracer;
+  };
+
+/** State shared by the builders of a single `run` */
+type RunState<Artifacts extends readonly UniqueArtifact[]> = {
+  task: schema.Task;
+  history?: schema.Message[];
+  verbose: boolean;
+  strict: boolean;
+  signal?: AbortSignal;
+  artifacts: ArtifactRecord<Artifacts>;
+  skippedBuildersSet: Set<string>;
+  /** Builders whose outputs are reused if their inputs turn out unchanged, see `outputsUpToDate` */
+  recheckedBuilders: Set<string>;
+  /** Artifacts not produced because their builders were skipped by conditions */
+  skippedArtifacts: Set<string>;
+  /** Artifacts not produced because their builders (or builders upstream) failed */
+  failedArtifacts: Set<string>;
+  /** Builders that failed with the `"continue"` error policy */
+  failures: { builder: string; error: unknown }[];
+  /** Conditions evaluated during the run, by condition index */
+  conditionResults: Map<number, Promise<string>>;
+  /** Branches recorded in the task by previous runs, by condition fingerprint (see `conditionFingerprint`) */
+  recordedConditions: Map<string, string>;
+  /** Outputs of loop iterations recorded in the task by previous runs, by artifact id */
+  recordedIterations: Map<string, IterationRecord[]>;
+  /** Lifecycle hooks passed to `run`, empty when none */
+  hooks: ArtifactGraphHooks;
+  tracer?: Tracer;
+  /** Parent of the spans started: the span of the run, or of the builder executing */
+  span?: Span;
+  /**
+   * Inputs fingerprint stamped on the outputs instead of the builder's own. Set
+   * when executing a fallback, whose outputs must match the fingerprint of the
+   * builder it replaces when the task is resumed.
+   */
+  fingerprint?: string;
+  /** Pauses the run when a builder requests user input, keeping the first request */
+  pause: { controller: AbortController; inputRequest?: TaskYieldUpdate };
 };
 
 export class ArtifactGraph<Artifacts extends readonly UniqueArtifact[]> {
@@ -76,44 +481,95 @@ export class ArtifactGraph<Artifacts extends readonly UniqueArtifact[]> {
     private readonly builders: ArtifactBuilder<Artifacts, any, any>[],
     private readonly conditions: ArtifactCondition<Artifacts, any, any>[] = []
   ) {
-    const unreachable = findUnreachableArtifacts(builders);
-    if (unreachable.length > 0) {
-      throw new Error(`Unreachable artifact(s): ${unreachable.join(", ")}`);
+    const issues = ArtifactGraph.validate(
+      artifactFactories,
+      builders,
+      conditions
+    );
+    if (issues.length > 0) {
+      throw new GraphValidationError(issues);
     }
   }
 
-  async *run(input: {
-    task: schema.Task;
-    history?: schema.Message[];
-    verbose?: boolean;
-  }): AsyncGenerator<
+  /**
+   * Checks the structure of a graph and returns every problem found (an empty
+   * list when the graph is valid). The constructor throws a `GraphValidationError`
+   * with these issues, so this is useful to inspect a graph without throwing.
+   */
+  static validate<Artifacts extends readonly UniqueArtifact[]>(
+    artifactFactories: ArtifactFactories<Artifacts>,
+    builders: ArtifactBuilder<Artifacts, any, any>[],
+    conditions: ArtifactCondition<Artifacts, any, any>[] = []
+  ): GraphIssue[] {
+    return validateGraph(Object.keys(artifactFactories), builders, conditions);
+  }
+
+  async *run(
+    input: RunInput<Artifacts>
+  ): AsyncGenerator<
     TaskYieldUpdate | schema.Artifact,
     schema.Task | void,
     unknown
   > {
-    const { task, history, verbose = false } = input;
-
-    /* Map */
-    const artifacts = Object.create(null) as ArtifactRecord<Artifacts>;
-
-    /* Load existing artifacts */
-    for (const artifact of task.artifacts ?? []) {
-      const id = (artifact.metadata ?? {})[
-        "artifactGraph.id"
-      ] as keyof typeof artifacts;
-      if (!id) continue;
-      artifacts[id] = this.artifactFactories[id](artifact);
+    const span = input.tracer?.startSpan("ArtifactGraph.run", {
+      attributes: { "artifactGraph.task": input.task.id },
+    });
+    try {
+      return yield* this.runTask(input, span);
+    } catch (error) {
+      if (span) failSpan(span, error);
+      throw error;
+    } finally {
+      span?.end();
     }
+  }
 
-    /* Skip builders that already have all outputs */
-    const skippedBuilders = this.builders.filter((b) =>
-      (b.outputs() as (keyof typeof artifacts)[]).every((o) => artifacts[o])
-    );
+  /** Executes the run, within the span of the run when traced */
+  private async *runTask(
+    input: RunInput<Artifacts>,
+    span?: Span
+  ): AsyncGenerator<
+    TaskYieldUpdate | schema.Artifact,
+    schema.Task | void,
+    unknown
+  > {
+    const {
+      history,
+      verbose = false,
+      concurrency = 1,
+      scheduler = "groups",
+      signal,
+      strict = false,
+      store,
+      hooks = {},
+      tracer,
+    } = input;
 
-    /* Determine execution order */
-    const sortedBuilders = sortBuilders(
-      this.builders.filter((b) => !skippedBuilders.includes(b))
-    );
+    /* Load artifacts saved by previous runs */
+    const task = store
+      ? {
+          ...input.task,
+          artifacts: [
+            ...(input.task.artifacts ?? []),
+            ...(await store.load(input.task.id)),
+          ],
+        }
+      : input.task;
+
+    const prepared = this.preparePlan({ ...input, task });
+    const {
+      task: builderTask,
+      artifacts,
+      excludedBuilders,
+      staleBuilders,
+      skippedBuilders,
+      recheckedBuilders,
+      pendingBuilders,
+      sortedBuilders,
+      recordedConditions,
+      recordedIterations,
+    } = prepared;
+    await hooks.onPlan?.(this.executionPlan(prepared));
 
     /* Notify execution plan (optional) */
     if (verbose) {
@@ -125,9 +581,15 @@ export class ArtifactGraph<Artifacts extends readonly UniqueArtifact[]> {
             {
               type: "text",
               text: `
+Following builders are excluded, because the targets do not depend on them:
+${excludedBuilders.map((b) => b.name).join(", ")}
+
 Following builders will be skipped, because results are already calculated:
 ${skippedBuilders.map((b) => b.name).join(", ")}
 
+Following builders will be recomputed, because their inputs have changed:
+${staleBuilders.map((b) => b.name).join(", ")}
+
 Execution plan:
 ${sortedBuilders
   .map((g) => "[" + g.map((b) => b.name).join(", ") + "]")
@@ -141,122 +603,123 @@ ${sortedBuilders
 
     const skippedBuildersSet = new Set(skippedBuilders.map((b) => b.name));
 
-    /* ── Execution loop ── */
-    for (const builders of sortedBuilders) {
-      for (const builder of builders) {
-        // Skip builder if its outputs are already calculated
-        if (skippedBuildersSet.has(builder.name)) {
-          if (verbose) {
-            yield {
-              state: "working",
-              message: {
-                role: "agent",
-                parts: [
-                  {
-                    type: "text",
-                    text: `${builder.name} skipped because its outputs are already calculated`,
-                  },
-                ],
-              },
-            };
-          }
-          continue;
-        }
+    // Aborted when the run is canceled or paused for user input
+    const pause = { controller: new AbortController() };
+    const onAbort = () => pause.controller.abort(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const runSignal = pause.controller.signal;
 
-        const inputKeys = builder.inputs() as (keyof typeof artifacts)[];
-        const outputKeys = builder.outputs() as (keyof typeof artifacts)[];
-
-        /** ---- Evaluate relevant conditions ---- */
-        const relevantConditions = this.conditions.filter((cond) => {
-          const condOutputs = cond.then as readonly string[];
-          return (
-            (inputKeys as readonly string[]).some((id) =>
-              condOutputs.includes(id)
-            ) ||
-            (outputKeys as readonly string[]).some((id) =>
-              condOutputs.includes(id)
-            )
-          );
-        });
+    const state: RunState<Artifacts> = {
+      task: builderTask,
+      history,
+      verbose,
+      strict,
+      signal: runSignal,
+      artifacts,
+      skippedBuildersSet,
+      recheckedBuilders: new Set(recheckedBuilders.map((b) => b.name)),
+      skippedArtifacts: new Set(),
+      failedArtifacts: new Set(),
+      failures: [],
+      conditionResults: new Map(),
+      recordedConditions,
+      recordedIterations,
+      hooks,
+      tracer,
+      span,
+      pause,
+    };
 
-        let conditionsPassed = true;
-        for (const cond of relevantConditions) {
-          const required = cond.inputs as (keyof typeof artifacts)[];
-          const condInputs = {} as any;
-          for (const r of required) {
-            if (!artifacts[r]) {
-              throw new Error(
-                `${builder.name}: Condition requires artifact ${String(
-                  r
-                )} which is missing`
-              );
-            }
-            condInputs[r] = artifacts[r];
-          }
+    /* ── Execution loop ── */
+    try {
+      if (scheduler === "ready") {
+        const deps = builderDependencies(pendingBuilders, (b) =>
+          this.gateInputs(b)
+        );
+        const started = new Set<ArtifactBuilder<Artifacts, any, any>>();
+        const finished = new Set<ArtifactBuilder<Artifacts, any, any>>();
+        const runBuilder = (builder: ArtifactBuilder<Artifacts, any, any>) =>
+          this.runBuilder(builder, state);
 
-          if (!cond.if({ inputs: condInputs })) {
-            conditionsPassed = false;
-            break;
-          }
-        }
+        // Hand out builders whose producing builders have all finished
+        const nextJobs = () =>
+          pendingBuilders
+            .filter(
+              (b) =>
+                !started.has(b) &&
+                Array.from(deps.get(b)!).every((d) => finished.has(d))
+            )
+            .map((builder) => {
+              started.add(builder);
+              return async function* () {
+                yield* runBuilder(builder);
+                finished.add(builder);
+              };
+            });
 
-        if (!conditionsPassed) {
-          if (verbose) {
-            yield {
-              state: "working",
-              message: {
-                role: "agent",
-                parts: [
-                  {
-                    type: "text",
-                    text: `${builder.name} skipped because condition(s) not satisfied`,
-                  },
-                ],
-              },
-            };
-          }
-          continue; // skip builder execution
+        yield* persisted(
+          scheduleJobs(nextJobs, concurrency, runSignal),
+          store,
+          task.id
+        );
+      } else {
+        for (const builders of sortedBuilders) {
+          if (runSignal.aborted) break;
+          yield* persisted(
+            mergeJobs(
+              builders.map((builder) => () => this.runBuilder(builder, state)),
+              concurrency,
+              runSignal
+            ),
+            store,
+            task.id
+          );
         }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
 
-        /** Collect required inputs */
-        const inputs = {} as Pick<typeof artifacts, (typeof inputKeys)[number]>;
-        for (const k of inputKeys) {
-          if (!artifacts[k]) {
-            throw new Error(
-              `${builder.name}: Artifact ${String(k)} is not found`
-            );
-          }
-          inputs[k] = artifacts[k];
-        }
+    /* Pause until the user answers */
+    if (state.pause.inputRequest) {
+      span?.setAttribute("artifactGraph.status", "input-required");
+      yield state.pause.inputRequest;
+      return;
+    }
 
-        /** Execute builder and process yielded values */
-        for await (const update of builder.build({ task, history, inputs })) {
-          if (isUniqueArtifact(update)) {
-            /* Embed id in metadata */
-            update.artifact.metadata = {
-              ...update.artifact.metadata,
-              "artifactGraph.id": update.id,
-            };
-            artifacts[update.id as keyof typeof artifacts] = update as any;
-
-            /* Pass schema.Artifact to the caller */
-            yield update.artifact;
-          } else {
-            yield update;
-          }
-        }
-      }
+    if (signal?.aborted) {
+      span?.setAttribute("artifactGraph.status", "canceled");
+      yield {
+        state: "canceled",
+        message: {
+          role: "agent",
+          parts: [{ type: "text", text: "Task canceled" }],
+        },
+      };
+      return;
     }
 
+    span?.setAttribute(
+      "artifactGraph.status",
+      state.failures.length > 0 ? "failed" : "completed"
+    );
+
     if (verbose) {
       // Calculate artifacts summary
       const calculatedArtifacts: (keyof typeof artifacts)[] = [];
+      const skippedArtifacts: (keyof typeof artifacts)[] = [];
+      const failedArtifacts: (keyof typeof artifacts)[] = [];
       const missingArtifacts: (keyof typeof artifacts)[] = [];
       for (const key of Object.keys(
         this.artifactFactories
       ) as (keyof typeof artifacts)[]) {
         if (artifacts[key] || skippedBuildersSet.has(key)) {
           calculatedArtifacts.push(key);
+        } else if (state.skippedArtifacts.has(key as string)) {
+          skippedArtifacts.push(key);
+        } else if (state.failedArtifacts.has(key as string)) {
+          failedArtifacts.push(key);
         } else {
           missingArtifacts.push(key);
         }
@@ -271,6 +734,8 @@ ${sortedBuilders
               type: "text",
               text: `Artifacts summary:
   ✅ Calculated: ${calculatedArtifacts.join(", ")}
+  ⏭️ Skipped by conditions: ${skippedArtifacts.join(", ")}
+  💥 Failed: ${failedArtifacts.join(", ")}
   ❌ Missing: ${missingArtifacts.join(", ")}
               `,
             },
@@ -278,5 +743,1102 @@ ${sortedBuilders
         },
       };
     }
+
+    /* Summarize the failures of builders that let the run continue */
+    if (state.failures.length > 0) {
+      const failures = state.failures.map(({ builder, error }) => ({
+        builder,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+      yield {
+        state: "failed",
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: `${failures.length} builder(s) failed:
+${failures.map((f) => `  - ${f.builder}: ${f.error}`).join("\n")}
+Artifacts not built: ${Array.from(state.failedArtifacts).join(", ")}`,
+            },
+          ],
+          metadata: { "artifactGraph.failures": failures },
+        },
+      };
+    }
+  }
+
+  /**
+   * Returns the execution plan for the given task without executing anything.
+   * The plan is the same `run` would follow with the same options.
+   */
+  plan(input: PlanInput<Artifacts>): ExecutionPlan {
+    return this.executionPlan(this.preparePlan(input));
+  }
+
+  /**
+   * Reconstructs how an artifact of the task was made: the builder, version and
+   * inputs recorded in its provenance, and recursively the lineage of those
+   * inputs. Returns undefined when the task has no such artifact.
+   */
+  lineage(
+    task: schema.Task,
+    artifactId: keyof ArtifactRecord<Artifacts> & string
+  ): LineageNode | undefined {
+    return traceLineage(task.artifacts ?? [], artifactId);
+  }
+
+  /** Describes a prepared plan as returned by `plan` */
+  private executionPlan({
+    artifacts,
+    excludedBuilders,
+    staleBuilders,
+    skippedBuilders,
+    pendingBuilders,
+    sortedBuilders,
+    recordedConditions,
+  }: ReturnType<ArtifactGraph<Artifacts>["preparePlan"]>): ExecutionPlan {
+    const names = (builders: ArtifactBuilder<Artifacts, any, any>[]) =>
+      builders.map((b) => b.name);
+
+    // Artifacts that exist or will be produced by this run
+    const producedIds = new Set<string>(
+      pendingBuilders.flatMap((b) => b.outputs() as readonly string[])
+    );
+    const available = new Set<string>([
+      ...Object.keys(artifacts),
+      ...producedIds,
+    ]);
+
+    return {
+      groups: sortedBuilders.map(names),
+      skipped: [
+        ...excludedBuilders.map((b) => ({
+          builder: b.name,
+          reason: "excluded" as const,
+        })),
+        ...skippedBuilders.map((b) => ({
+          builder: b.name,
+          reason: "calculated" as const,
+        })),
+      ],
+      stale: names(staleBuilders),
+      conditional: pendingBuilders.flatMap((b) => {
+        const gates = builderGates(b, this.conditions);
+        return gates.length > 0
+          ? [{ builder: b.name, conditionInputs: this.gateInputs(b), gates }]
+          : [];
+      }),
+      conditions: this.conditions.map((cond, condition) => {
+        // Recorded results only hold while the condition's inputs are final and unchanged
+        const inputIds = cond.inputs as (keyof typeof artifacts)[];
+        const final = inputIds.every(
+          (id) => artifacts[id] && !producedIds.has(id as string)
+        );
+        const fingerprint = conditionFingerprint(
+          cond,
+          Object.fromEntries(inputIds.map((id) => [id, artifacts[id]]))
+        );
+        return {
+          condition,
+          branch: final ? recordedConditions.get(fingerprint) ?? null : null,
+        };
+      }),
+      missingInputs: pendingBuilders.flatMap((b) => {
+        const required = new Set<string>([
+          ...(b.inputs() as readonly string[]),
+          ...this.gateInputs(b),
+        ]);
+        const missing = Array.from(required).filter((id) => !available.has(id));
+        return missing.length > 0
+          ? [{ builder: b.name, artifacts: missing }]
+          : [];
+      }),
+    };
+  }
+
+  /**
+   * Exports the graph as a Mermaid flowchart, showing artifacts and builders as
+   * distinct nodes and conditions as labelled edges. When a task is given, nodes
+   * are coloured by their state (present, missing, skipped) for that task.
+   */
+  toMermaid(input?: PlanInput<Artifacts>): string {
+    return renderMermaid(this.describe(input));
+  }
+
+  /** Same as `toMermaid`, in Graphviz DOT format */
+  toDot(input?: PlanInput<Artifacts>): string {
+    return renderDot(this.describe(input));
+  }
+
+  /** Collects nodes and edges of the graph, with their states when a task is given */
+  private describe(input?: PlanInput<Artifacts>): GraphDescription {
+    const plan = input && this.preparePlan(input);
+    const skipped = plan
+      ? [...plan.excludedBuilders, ...plan.skippedBuilders]
+      : [];
+
+    const artifactIds = new Set<string>([
+      ...Object.keys(this.artifactFactories),
+      ...this.builders.flatMap((b) => [
+        ...builderInputs(b),
+        ...(b.outputs() as readonly string[]),
+      ]),
+    ]);
+
+    return {
+      artifacts: Array.from(artifactIds).map((id) => ({
+        id,
+        state: plan
+          ? id in plan.artifacts
+            ? "present"
+            : "missing"
+          : undefined,
+      })),
+      builders: this.builders.map((b) => ({
+        name: b.name,
+        inputs: b.inputs() as readonly string[],
+        optionalInputs: (b.optionalInputs?.() ?? []) as readonly string[],
+        outputs: b.outputs() as readonly string[],
+        state: skipped.includes(b) ? "skipped" : undefined,
+      })),
+      conditionEdges: this.builders.flatMap((b, builder) =>
+        builderGates(b, this.conditions).flatMap(({ condition, branch }) =>
+          (this.conditions[condition].inputs as readonly string[]).map(
+            (artifact) => ({
+              artifact,
+              builder,
+              label: `condition ${condition + 1}: ${branch}`,
+            })
+          )
+        )
+      ),
+    };
+  }
+
+  /** Loads the task's artifacts and decides which builders execute, and in which order */
+  private preparePlan(input: PlanInput<Artifacts>) {
+    const { task, targets, invalidate = [] } = input;
+
+    /* Map */
+    const artifacts = Object.create(null) as ArtifactRecord<Artifacts>;
+
+    /* Load existing artifacts, recorded condition results and loop iterations */
+    const recordedConditions = new Map<string, string>();
+    const recordedIterations = new Map<string, IterationRecord[]>();
+    const stored = assembleChunks(task.artifacts ?? [], ({ metadata }) => {
+      const id =
+        metadata?.["artifactGraph.id"] ??
+        metadata?.["artifactGraph.iterationOf"];
+      return id === undefined
+        ? undefined
+        : `${id}#${metadata?.["artifactGraph.iteration"] ?? ""}`;
+    });
+    for (const artifact of stored) {
+      const metadata = artifact.metadata ?? {};
+      if (typeof metadata["artifactGraph.condition"] === "number") {
+        recordedConditions.set(
+          metadata["artifactGraph.fingerprint"],
+          metadata["artifactGraph.branch"]
+        );
+        continue;
+      }
+      if (typeof metadata["artifactGraph.iterationOf"] === "string") {
+        const of = metadata["artifactGraph.iterationOf"];
+        recordedIterations.set(of, [
+          ...(recordedIterations.get(of) ?? []),
+          {
+            iteration: metadata["artifactGraph.iteration"],
+            fingerprint: metadata["artifactGraph.fingerprint"],
+            artifact,
+          },
+        ]);
+        continue;
+      }
+
+      const id = metadata["artifactGraph.id"] as keyof typeof artifacts;
+      if (!id) continue;
+      artifacts[id] = this.artifactFactories[id](artifact);
+    }
+
+    /* Discard explicitly invalidated artifacts (descendants are handled below) */
+    const invalidated = new Set<string>();
+    for (const key of invalidate) {
+      const builder = this.builders.find((b) => b.name === key);
+      if (builder) {
+        for (const o of builder.outputs() as (keyof typeof artifacts)[]) {
+          delete artifacts[o];
+          invalidated.add(o as string);
+        }
+      } else if (key in this.artifactFactories) {
+        delete artifacts[key as keyof typeof artifacts];
+        invalidated.add(key);
+      } else {
+        throw new Error(`Unknown artifact or builder to invalidate: "${key}"`);
+      }
+    }
+
+    /* Discard the item results and iterations recorded for invalidated artifacts and their descendants */
+    for (const b of sortBuilders(this.builders).flat()) {
+      if (builderInputs(b).some((i) => invalidated.has(i))) {
+        (b.outputs() as readonly string[]).forEach((o) => invalidated.add(o));
+      }
+    }
+    invalidated.forEach((id) => recordedIterations.delete(id));
+    // Task passed to builders
+    const builderTask =
+      invalidated.size === 0
+        ? task
+        : {
+            ...task,
+            artifacts: task.artifacts?.filter(
+              (a: schema.Artifact) =>
+                !invalidated.has(a.metadata?.["artifactGraph.item"]?.id)
+            ),
+          };
+
+    /* Exclude builders the targets do not depend on */
+    const activeBuilders = targets
+      ? findRequiredBuilders(this.builders, targets as readonly string[], (b) =>
+          this.gateInputs(b)
+        )
+      : this.builders;
+    const excludedBuilders = this.builders.filter(
+      (b) => !activeBuilders.includes(b)
+    );
+
+    /* Invalidate outputs computed from inputs that have changed since */
+    const staleBuilders: ArtifactBuilder<Artifacts, any, any>[] = [];
+    const rebuilt = new Set<keyof typeof artifacts>();
+    // Builders whose outputs are kept, but checked again at run time (see `outputsUpToDate`)
+    const recheckedBuilders: ArtifactBuilder<Artifacts, any, any>[] = [];
+    const rechecked = new Set<keyof typeof artifacts>();
+    for (const b of sortBuilders(activeBuilders, (b) =>
+      this.gateInputs(b)
+    ).flat()) {
+      const required = b.inputs() as (keyof typeof artifacts)[];
+      const optional = (b.optionalInputs?.() ??
+        []) as (keyof typeof artifacts)[];
+      // Optional inputs only count when they exist, as in the builder's fingerprint.
+      // So do the required inputs of builders running with skipped inputs, which
+      // are absent when a condition skipped their producer.
+      const ins = [
+        ...required.filter((i) => b.onSkippedInputs !== "run" || artifacts[i]),
+        ...optional.filter((i) => artifacts[i]),
+      ];
+      const outs = b.outputs() as (keyof typeof artifacts)[];
+
+      // Builders with missing outputs run again, so everything downstream is rebuilt
+      if (!outs.every((o) => artifacts[o])) {
+        outs.forEach((o) => rebuilt.add(o));
+        continue;
+      }
+
+      const fingerprint = inputsFingerprint(
+        b,
+        Object.fromEntries(ins.map((i) => [i, artifacts[i]]))
+      );
+      const changed =
+        ins.some((i) => rebuilt.has(i)) ||
+        outs.some((o) => {
+          const recorded =
+            artifacts[o].artifact.metadata?.["artifactGraph.fingerprint"];
+          return recorded !== undefined && recorded !== fingerprint;
+        });
+
+      if (changed) {
+        staleBuilders.push(b);
+        for (const o of outs) {
+          rebuilt.add(o);
+          delete artifacts[o];
+        }
+      } else if (
+        [...required, ...optional].some(
+          (i) => rebuilt.has(i) || rechecked.has(i)
+        )
+      ) {
+        // Absent optional (or skipped) inputs may or may not be produced in this run
+        // (e.g. their builder is gated by a condition), so this is only decided at run time
+        recheckedBuilders.push(b);
+        outs.forEach((o) => rechecked.add(o));
+      }
+    }
+
+    /* Skip builders that already have all outputs */
+    const skippedBuilders = activeBuilders.filter(
+      (b) =>
+        !recheckedBuilders.includes(b) &&
+        (b.outputs() as (keyof typeof artifacts)[]).every((o) => artifacts[o])
+    );
+
+    /* Determine execution order */
+    const pendingBuilders = activeBuilders.filter(
+      (b) => !skippedBuilders.includes(b)
+    );
+    const sortedBuilders = sortBuilders(pendingBuilders, (b) =>
+      this.gateInputs(b)
+    );
+
+    return {
+      task: builderTask,
+      artifacts,
+      excludedBuilders,
+      staleBuilders,
+      skippedBuilders,
+      recheckedBuilders,
+      pendingBuilders,
+      sortedBuilders,
+      recordedConditions,
+      recordedIterations,
+    };
+  }
+
+  /**
+   * Whether a rechecked builder's outputs were built from the inputs available
+   * now, in which case it does not need to execute again.
+   */
+  private outputsUpToDate(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    state: RunState<Artifacts>
+  ): boolean {
+    const { artifacts, recheckedBuilders, skippedArtifacts } = state;
+    if (!recheckedBuilders.has(builder.name)) return false;
+
+    // Same inputs as passed to the build, see `runBuilder`
+    const inputs = Object.fromEntries([
+      ...(builder.inputs() as (keyof typeof artifacts)[])
+        .filter(
+          (i) =>
+            builder.onSkippedInputs !== "run" ||
+            !skippedArtifacts.has(i as string)
+        )
+        .map((i) => [i, artifacts[i]]),
+      ...((builder.optionalInputs?.() ?? []) as (keyof typeof artifacts)[])
+        .filter((i) => artifacts[i])
+        .map((i) => [i, artifacts[i]]),
+    ]);
+    const fingerprint = inputsFingerprint(builder, inputs);
+    return (builder.outputs() as (keyof typeof artifacts)[]).every(
+      (o) =>
+        artifacts[o]?.artifact.metadata?.["artifactGraph.fingerprint"] ===
+        fingerprint
+    );
+  }
+
+  /** Evaluates conditions for a single builder and executes it */
+  private async *runBuilder(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    state: RunState<Artifacts>
+  ): AsyncGenerator<TaskYieldUpdate | schema.Artifact, void, unknown> {
+    const {
+      verbose,
+      artifacts,
+      skippedBuildersSet,
+      skippedArtifacts,
+      failedArtifacts,
+      hooks,
+    } = state;
+
+    // Skip builder if its outputs are already calculated
+    if (
+      skippedBuildersSet.has(builder.name) ||
+      this.outputsUpToDate(builder, state)
+    ) {
+      await this.skipBuilder(builder, "calculated", state);
+      if (verbose) {
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${builder.name} skipped because its outputs are already calculated`,
+              },
+            ],
+          },
+        };
+      }
+      return;
+    }
+
+    const inputKeys = builder.inputs() as (keyof typeof artifacts)[];
+    const outputKeys = builder.outputs() as readonly string[];
+
+    /** ---- Skip builders depending on skipped artifacts ---- */
+    // Conditions cannot be evaluated without their inputs, so those always skip the builder
+    const skippedInputs = [
+      ...(builder.onSkippedInputs === "run" ? [] : (inputKeys as string[])),
+      ...this.gateInputs(builder),
+    ].filter((k) => skippedArtifacts.has(k));
+
+    if (skippedInputs.length > 0) {
+      outputKeys.forEach((o) => skippedArtifacts.add(o));
+      await this.skipBuilder(builder, "skipped-inputs", state);
+      if (verbose) {
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${
+                  builder.name
+                } skipped because its input(s) ${Array.from(
+                  new Set(skippedInputs)
+                ).join(", ")} were skipped`,
+              },
+            ],
+          },
+        };
+      }
+      return;
+    }
+
+    /** ---- Skip builders depending on artifacts that failed to build ---- */
+    const failedInputs = [
+      ...(inputKeys as string[]),
+      ...this.gateInputs(builder),
+    ].filter((k) => failedArtifacts.has(k));
+
+    if (failedInputs.length > 0) {
+      outputKeys.forEach((o) => failedArtifacts.add(o));
+      await this.skipBuilder(builder, "failed-inputs", state);
+      if (verbose) {
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${
+                  builder.name
+                } skipped because its input(s) ${Array.from(
+                  new Set(failedInputs)
+                ).join(", ")} failed to build`,
+              },
+            ],
+          },
+        };
+      }
+      return;
+    }
+
+    /** ---- Evaluate gating conditions ---- */
+    let conditionsPassed = true;
+    for (const { condition, branch } of builderGates(
+      builder,
+      this.conditions
+    )) {
+      if ((yield* this.takenBranch(condition, builder, state)) !== branch) {
+        conditionsPassed = false;
+        break;
+      }
+    }
+
+    if (!conditionsPassed) {
+      outputKeys.forEach((o) => skippedArtifacts.add(o));
+      await this.skipBuilder(builder, "condition", state);
+      if (verbose) {
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${builder.name} skipped because condition(s) not satisfied`,
+              },
+            ],
+          },
+        };
+      }
+      return; // skip builder execution
+    }
+
+    /** Collect required inputs */
+    const inputs = {} as Partial<typeof artifacts>;
+    for (const k of inputKeys) {
+      if (skippedArtifacts.has(k as string)) continue;
+      if (!artifacts[k]) {
+        throw new Error(`${builder.name}: Artifact ${String(k)} is not found`);
+      }
+      inputs[k] = artifacts[k];
+    }
+
+    /** Collect optional inputs that exist */
+    for (const k of (builder.optionalInputs?.() ??
+      []) as (keyof typeof artifacts)[]) {
+      if (artifacts[k]) inputs[k] = artifacts[k];
+    }
+
+    /** Execute builder, notifying hooks and tracing it */
+    const startedAt = Date.now();
+    const span = state.tracer?.startSpan(`builder ${builder.name}`, {
+      parent: state.span,
+      attributes: builderAttributes(builder),
+    });
+    await hooks.onBuilderStart?.({ builder: builder.name });
+    let status: "completed" | "cached" | "paused" | undefined;
+    let failure: unknown;
+    try {
+      status = yield* this.execute(builder, inputs, { ...state, span });
+      span?.setAttribute("artifactGraph.status", status);
+    } catch (error) {
+      if (span) {
+        span.setAttribute("artifactGraph.status", "failed");
+        failSpan(span, error);
+      }
+      await hooks.onBuilderEnd?.({
+        builder: builder.name,
+        durationMs: Date.now() - startedAt,
+        status: "failed",
+        error,
+      });
+      const policy = builder.onError ?? "fail";
+      if (policy === "fail" || state.signal?.aborted) throw error;
+      failure = error;
+    } finally {
+      span?.end();
+    }
+
+    if (status === undefined) {
+      yield* this.recover(builder, failure, {
+        ...state,
+        fingerprint: state.fingerprint ?? inputsFingerprint(builder, inputs),
+      });
+      return;
+    }
+    await hooks.onBuilderEnd?.({
+      builder: builder.name,
+      durationMs: Date.now() - startedAt,
+      status,
+    });
+  }
+
+  /** Applies the error policy of a builder that failed, when it is not `"fail"` */
+  private async *recover(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    error: unknown,
+    state: RunState<Artifacts>
+  ): AsyncGenerator<TaskYieldUpdate | schema.Artifact, void, unknown> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    /* Execute the fallback, which is subject to its own error policy */
+    const fallback = fallbackOf(builder);
+    if (fallback) {
+      yield {
+        state: "working",
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: `${builder.name} failed: ${message}. Running fallback ${fallback.name}`,
+            },
+          ],
+        },
+      };
+      yield* this.runBuilder(fallback, state);
+      return;
+    }
+
+    /* Continue without the outputs that were not produced */
+    const missing = (builder.outputs() as (keyof typeof state.artifacts)[])
+      .filter((o) => !state.artifacts[o])
+      .map(String);
+    missing.forEach((o) => state.failedArtifacts.add(o));
+    state.failures.push({ builder: builder.name, error });
+    yield {
+      state: "working",
+      message: {
+        role: "agent",
+        parts: [
+          {
+            type: "text",
+            text: `${
+              builder.name
+            } failed: ${message}. Continuing without ${missing.join(", ")}`,
+          },
+        ],
+      },
+    };
+  }
+
+  /** Notifies hooks and the tracer that a builder does not execute */
+  private async skipBuilder(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    reason: "calculated" | "condition" | "skipped-inputs" | "failed-inputs",
+    state: RunState<Artifacts>
+  ) {
+    await state.hooks.onBuilderSkip?.({ builder: builder.name, reason });
+    state.tracer
+      ?.startSpan(`builder ${builder.name}`, {
+        parent: state.span,
+        attributes: {
+          ...builderAttributes(builder),
+          "artifactGraph.skipReason": reason,
+        },
+      })
+      .end();
+  }
+
+  /** Executes a builder, reusing its cached outputs when possible */
+  private async *execute(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    inputs: Partial<ArtifactRecord<Artifacts>>,
+    state: RunState<Artifacts>
+  ): AsyncGenerator<
+    TaskYieldUpdate | schema.Artifact,
+    "completed" | "cached" | "paused",
+    unknown
+  > {
+    const { artifacts, hooks } = state;
+    const outputKeys = builder.outputs() as (keyof typeof artifacts)[];
+
+    /** Reuse outputs cached for the same inputs */
+    const key = builder.cache && cacheKey(builder, inputs);
+    const cached = key && (await builder.cache!.get(key));
+    if (cached) {
+      for (const entry of cached) {
+        const artifact = { ...entry };
+        const id = artifact.metadata?.["artifactGraph.id"];
+        artifacts[id as keyof typeof artifacts] =
+          this.artifactFactories[id as keyof ArtifactFactories<Artifacts>](
+            artifact
+          );
+        await hooks.onArtifact?.({ builder: builder.name, id, artifact });
+        yield artifact;
+      }
+      yield {
+        state: "working",
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: `${builder.name} reused cached outputs (cache hit)`,
+            },
+          ],
+        },
+      };
+      return "cached";
+    }
+
+    if (builder.loop) {
+      yield* this.runLoop(builder, inputs, state);
+    } else {
+      yield* this.buildWithRetry(builder, inputs, state);
+    }
+
+    if (state.pause.inputRequest) return "paused";
+
+    /** Cache the outputs once all of them are built */
+    const outputs = outputKeys.map((o) => artifacts[o]);
+    if (key && outputs.every((o) => o)) {
+      await builder.cache!.set(
+        key,
+        outputs.map((o) => o.artifact)
+      );
+    }
+    return "completed";
+  }
+
+  /**
+   * Executes a loop builder until its `until` condition holds or `maxIterations`
+   * is reached, then stores the outputs of the last iteration. Each iteration's
+   * outputs are yielded with `metadata["artifactGraph.iteration"]`, so a resumed
+   * task continues from the last completed iteration.
+   */
+  private async *runLoop(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    inputs: Partial<ArtifactRecord<Artifacts>>,
+    state: RunState<Artifacts>
+  ): AsyncGenerator<TaskYieldUpdate | schema.Artifact, void, unknown> {
+    const { task, history, verbose, artifacts, recordedIterations } = state;
+    const { maxIterations, until } = builder.loop!;
+    const outputKeys = builder.outputs() as (keyof typeof artifacts)[];
+    const fingerprint = state.fingerprint ?? inputsFingerprint(builder, inputs);
+
+    // Resume from the last iteration whose outputs were all recorded for the same inputs
+    const recordedOutputs = (n: number) =>
+      outputKeys.map((o) =>
+        recordedIterations
+          .get(o as string)
+          ?.find((r) => r.iteration === n && r.fingerprint === fingerprint)
+      );
+    let iteration = 0;
+    let previous: Partial<ArtifactRecord<Artifacts>> | undefined;
+    for (let n = 1; n <= maxIterations; n++) {
+      const records = recordedOutputs(n);
+      if (!records.every((r) => r)) break;
+      iteration = n;
+      previous = Object.fromEntries(
+        outputKeys.map((o, i) => [
+          o,
+          this.artifactFactories[o](records[i]!.artifact),
+        ])
+      ) as Partial<ArtifactRecord<Artifacts>>;
+    }
+
+    const finished = async () =>
+      iteration >= maxIterations ||
+      (await until({ task, history, inputs, outputs: previous!, iteration }));
+
+    while (!(previous && (await finished()))) {
+      iteration++;
+      previous = yield* this.buildWithRetry(builder, inputs, state, {
+        iteration,
+        previous,
+      });
+      if (state.pause.inputRequest) return;
+
+      if (verbose) {
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${builder.name} completed iteration ${iteration}/${maxIterations}`,
+              },
+            ],
+          },
+        };
+      }
+    }
+
+    /* Pass the outputs of the last iteration downstream */
+    for (const o of outputKeys) {
+      const last = previous[o];
+      if (!last) continue;
+      const { "artifactGraph.iterationOf": _, ...metadata } =
+        last.artifact.metadata ?? {};
+      const artifact: schema.Artifact = {
+        ...last.artifact,
+        metadata: { ...metadata, "artifactGraph.id": o },
+      };
+      artifacts[o] = this.artifactFactories[o](artifact) as any;
+      await state.hooks.onArtifact?.({
+        builder: builder.name,
+        id: o as string,
+        artifact,
+      });
+      yield artifact;
+    }
+  }
+
+  /**
+   * Executes builder, retrying failed attempts according to its policy.
+   * Returns the outputs it yielded.
+   */
+  private async *buildWithRetry(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    inputs: Partial<ArtifactRecord<Artifacts>>,
+    state: RunState<Artifacts>,
+    loop?: {
+      iteration: number;
+      previous?: Partial<ArtifactRecord<Artifacts>>;
+    }
+  ): AsyncGenerator<
+    TaskYieldUpdate | schema.Artifact,
+    Partial<ArtifactRecord<Artifacts>>,
+    unknown
+  > {
+    const { signal, hooks } = state;
+
+    const maxAttempts = builder.retry?.maxAttempts ?? 1;
+    for (let attempt = 1; ; attempt++) {
+      // Each attempt gets its own signal, aborted on cancellation, timeout or failure
+      const controller = new AbortController();
+      const onAbort = () => controller.abort(signal?.reason);
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        return yield* this.buildOnce(
+          builder,
+          inputs,
+          { ...state, signal: controller.signal },
+          attempt,
+          loop
+        );
+      } catch (e) {
+        controller.abort(e);
+
+        const retryable = builder.retry?.retryable ?? (() => true);
+        const willRetry =
+          !signal?.aborted && attempt < maxAttempts && retryable(e);
+        await hooks.onError?.({
+          builder: builder.name,
+          error: e,
+          attempt,
+          willRetry,
+        });
+        if (!willRetry) throw e;
+        state.span?.setAttribute("artifactGraph.retries", attempt);
+
+        const delay = retryDelay(builder.retry!, attempt);
+        yield {
+          state: "working",
+          message: {
+            role: "agent",
+            parts: [
+              {
+                type: "text",
+                text: `${
+                  builder.name
+                } failed (attempt ${attempt}/${maxAttempts}): ${
+                  e instanceof Error ? e.message : String(e)
+                }. Retrying in ${delay}ms`,
+              },
+            ],
+          },
+        };
+        await sleep(delay, signal);
+        // The sleep ends early when the run is canceled, which must not start another attempt
+        if (signal?.aborted) throw e;
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+
+  /** Artifacts required by the conditions gating the builder */
+  private gateInputs(builder: ArtifactBuilder<Artifacts, any, any>): string[] {
+    return Array.from(
+      new Set(
+        builderGates(builder, this.conditions).flatMap(
+          ({ condition }) =>
+            this.conditions[condition].inputs as readonly string[]
+        )
+      )
+    );
+  }
+
+  /**
+   * Evaluates a condition (once per run) and returns the branch taken.
+   * A result recorded by a previous run for the same condition (identified by its
+   * layout, see `conditionFingerprint`) is reused while the condition's inputs are
+   * unchanged; otherwise the new result is yielded as an artifact to record it.
+   */
+  private async *takenBranch(
+    condition: number,
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    state: RunState<Artifacts>
+  ): AsyncGenerator<schema.Artifact, string, unknown> {
+    const {
+      task,
+      history,
+      signal,
+      artifacts,
+      conditionResults,
+      recordedConditions,
+    } = state;
+
+    const cached = conditionResults.get(condition);
+    if (cached !== undefined) return await cached;
+
+    const cond = this.conditions[condition];
+    const condInputs = {} as any;
+    for (const r of cond.inputs as (keyof typeof artifacts)[]) {
+      if (!artifacts[r]) {
+        throw new Error(
+          `${builder.name}: Condition requires artifact ${String(
+            r
+          )} which is missing`
+        );
+      }
+      condInputs[r] = artifacts[r];
+    }
+
+    const span = state.tracer?.startSpan(`condition ${condition + 1}`, {
+      parent: state.span,
+      attributes: {
+        "artifactGraph.condition": condition,
+        "artifactGraph.inputs": [...(cond.inputs as readonly string[])],
+      },
+    });
+
+    const fingerprint = conditionFingerprint(cond, condInputs);
+    const recorded = recordedConditions.get(fingerprint);
+    if (recorded !== undefined) {
+      conditionResults.set(condition, Promise.resolve(recorded));
+      span?.setAttribute("artifactGraph.branch", recorded);
+      span?.setAttribute("artifactGraph.recorded", true);
+      span?.end();
+      await state.hooks.onConditionEvaluated?.({
+        condition,
+        branch: recorded,
+        recorded: true,
+      });
+      return recorded;
+    }
+
+    // Builders gated by the same condition may run concurrently, so the evaluation is shared
+    const evaluation = evaluateCondition(cond, {
+      task,
+      history,
+      inputs: condInputs,
+      signal,
+    });
+    conditionResults.set(condition, evaluation);
+    let branch: string;
+    try {
+      branch = await evaluation;
+      span?.setAttribute("artifactGraph.branch", branch);
+      span?.setAttribute("artifactGraph.recorded", false);
+    } catch (error) {
+      if (span) failSpan(span, error);
+      throw error;
+    } finally {
+      span?.end();
+    }
+    await state.hooks.onConditionEvaluated?.({
+      condition,
+      branch,
+      recorded: false,
+    });
+
+    yield {
+      name: `condition ${condition + 1}`,
+      parts: [{ type: "data", data: { condition, branch } }],
+      metadata: {
+        "artifactGraph.condition": condition,
+        "artifactGraph.branch": branch,
+        "artifactGraph.fingerprint": fingerprint,
+      },
+    };
+    return branch;
+  }
+
+  /**
+   * Runs a single build attempt and returns the yielded artifacts. They are
+   * stored right away, except for loop iterations, which are only recorded.
+   */
+  private async *buildOnce(
+    builder: ArtifactBuilder<Artifacts, any, any>,
+    inputs: Partial<ArtifactRecord<Artifacts>>,
+    state: RunState<Artifacts>,
+    attempt: number,
+    loop?: {
+      iteration: number;
+      previous?: Partial<ArtifactRecord<Artifacts>>;
+    }
+  ): AsyncGenerator<
+    TaskYieldUpdate | schema.Artifact,
+    Partial<ArtifactRecord<Artifacts>>,
+    unknown
+  > {
+    const { task, history, strict, signal, artifacts, pause } = state;
+
+    const fingerprint = state.fingerprint ?? inputsFingerprint(builder, inputs);
+    const provenance: Omit<Provenance, "endedAt"> = {
+      builder: builder.name,
+      ...(builder.version !== undefined && { version: builder.version }),
+      inputs: Object.entries(inputs).map(([id, input]) => ({
+        id,
+        fingerprint: artifactFingerprint((input as UniqueArtifact).artifact),
+      })),
+      startedAt: new Date().toISOString(),
+      attempts: attempt,
+    };
+    const declaredOutputs = builder.outputs() as readonly string[];
+    const outputs: Partial<ArtifactRecord<Artifacts>> = {};
+    // Streamed artifacts assembled so far, by id
+    const chunks = new Map<string, schema.Artifact>();
+    const input = findInputReply(
+      history ?? task.history ?? [],
+      builder.name,
+      fingerprint
+    );
+
+    const updates = withTimeout(
+      builder.build({ task, history, inputs, signal, input, ...loop }),
+      builder.timeoutMs,
+      () => new BuilderTimeoutError(builder.name, builder.timeoutMs!)
+    );
+
+    for await (const update of updates) {
+      if (isUniqueArtifact(update)) {
+        if (strict && !declaredOutputs.includes(update.id)) {
+          throw new UndeclaredOutputError(builder.name, update.id);
+        }
+        /* Embed id (or iteration), inputs fingerprint and provenance in metadata */
+        update.artifact.metadata = {
+          ...update.artifact.metadata,
+          ...(loop
+            ? {
+                "artifactGraph.iterationOf": update.id,
+                "artifactGraph.iteration": loop.iteration,
+              }
+            : { "artifactGraph.id": update.id }),
+          "artifactGraph.fingerprint": fingerprint,
+          "artifactGraph.provenance": {
+            ...provenance,
+            endedAt: new Date().toISOString(),
+          },
+        };
+
+        /* Chunks are forwarded right away, but only the assembled artifact is stored */
+        let complete: UniqueArtifact = update;
+        if (isChunk(update.artifact)) {
+          const assembled = appendChunk(chunks.get(update.id), update.artifact);
+          if (assembled.lastChunk === false) {
+            chunks.set(update.id, assembled);
+            yield update.artifact;
+            continue;
+          }
+          chunks.delete(update.id);
+          complete = this.artifactFactories[
+            update.id as keyof ArtifactFactories<Artifacts>
+          ](completeArtifact(assembled));
+        }
+
+        outputs[update.id as keyof typeof artifacts] = complete as any;
+        if (!loop) {
+          artifacts[update.id as keyof typeof artifacts] = complete as any;
+          await state.hooks.onArtifact?.({
+            builder: builder.name,
+            id: update.id,
+            artifact: complete.artifact,
+          });
+        }
+
+        /* Pass schema.Artifact to the caller */
+        yield update.artifact;
+      } else if (isInputRequest(update)) {
+        /* Pause the run, tagging the request so that the reply can be found in history */
+        pause.inputRequest ??= {
+          ...update,
+          message: {
+            role: "agent",
+            parts: [],
+            ...update.message,
+            metadata: {
+              ...update.message?.metadata,
+              "artifactGraph.inputRequest": builder.name,
+              "artifactGraph.fingerprint": fingerprint,
+            },
+          },
+        };
+        pause.controller.abort();
+        return outputs;
+      } else {
+        yield update;
+      }
+    }
+
+    if (strict) {
+      const missing = declaredOutputs.filter((o) => !(o in outputs));
+      if (missing.length > 0) {
+        throw new MissingOutputError(builder.name, missing);
+      }
+    }
+
+    return outputs;
   }
 }
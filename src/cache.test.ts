@@ -0,0 +1,43 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileArtifactCache, MemoryArtifactCache } from "./cache";
+
+const artifacts: schema.Artifact[] = [
+  {
+    parts: [{ type: "text", text: "cached" }],
+    metadata: { "artifactGraph.id": "a" },
+  },
+];
+
+describe("MemoryArtifactCache", () => {
+  it("returns the cached artifacts", async () => {
+    const cache = new MemoryArtifactCache();
+    expect(await cache.get("k")).toBeUndefined();
+
+    await cache.set("k", artifacts);
+    expect(await cache.get("k")).toEqual(artifacts);
+  });
+});
+
+describe("FileArtifactCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "artifact-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("returns the cached artifacts across instances", async () => {
+    const cache = new FileArtifactCache(directory);
+    expect(await cache.get("k")).toBeUndefined();
+
+    await cache.set("k", artifacts);
+    expect(await new FileArtifactCache(directory).get("k")).toEqual(artifacts);
+    expect(await fs.readdir(directory)).toEqual(["k.json"]);
+  });
+});
@@ -0,0 +1,53 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/**
+ * Backend of the memoization cache of builders, shared across tasks. Entries
+ * hold the outputs a builder produced, keyed by `cacheKey` (builder name,
+ * version and input parts).
+ */
+export interface ArtifactCache {
+  /** Returns the cached outputs, or undefined on a cache miss */
+  get(key: string): Promise<schema.Artifact[] | undefined>;
+  set(key: string, artifacts: schema.Artifact[]): Promise<void>;
+}
+
+/** Keeps cached outputs in memory, for the lifetime of the process */
+export class MemoryArtifactCache implements ArtifactCache {
+  private readonly entries = new Map<string, schema.Artifact[]>();
+
+  async get(key: string): Promise<schema.Artifact[] | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, artifacts: schema.Artifact[]): Promise<void> {
+    this.entries.set(key, artifacts);
+  }
+}
+
+/** Stores cached outputs on the filesystem, as one JSON file per entry in `directory` */
+export class FileArtifactCache implements ArtifactCache {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<schema.Artifact[] | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(key), "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  async set(key: string, artifacts: schema.Artifact[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so that readers never see a partial entry
+    const tmp = `${this.file(key)}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(artifacts));
+    await fs.rename(tmp, this.file(key));
+  }
+
+  private file(key: string) {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
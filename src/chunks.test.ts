@@ -0,0 +1,49 @@
+import { assembleChunks } from "./chunks";
+
+const text = (t: string) => ({ type: "text", text: t } as const);
+const byName = (artifact: { name?: string }) => artifact.name;
+
+describe("assembleChunks", () => {
+  it("appends chunks to the artifact with the same key", () => {
+    expect(
+      assembleChunks(
+        [
+          { name: "a", parts: [text("1")], lastChunk: false },
+          { parts: [text("x")] },
+          { name: "a", parts: [text("2")], append: true, lastChunk: false },
+          { name: "a", parts: [text("3")], append: true, lastChunk: true },
+        ],
+        byName
+      )
+    ).toEqual([
+      { name: "a", parts: [text("1"), text("2"), text("3")] },
+      { parts: [text("x")] },
+    ]);
+  });
+
+  it("drops artifacts whose last chunk was not received", () => {
+    expect(
+      assembleChunks(
+        [
+          { name: "a", parts: [text("1")] },
+          { name: "b", parts: [text("1")], lastChunk: false },
+          { name: "b", parts: [text("2")], append: true, lastChunk: false },
+        ],
+        byName
+      )
+    ).toEqual([{ name: "a", parts: [text("1")] }]);
+  });
+
+  it("keeps the latest version of an artifact", () => {
+    expect(
+      assembleChunks(
+        [
+          { name: "a", parts: [text("old")] },
+          { name: "a", parts: [text("new")], lastChunk: false },
+          { name: "a", parts: [text("er")], append: true },
+        ],
+        byName
+      )
+    ).toEqual([{ name: "a", parts: [text("new"), text("er")] }]);
+  });
+});
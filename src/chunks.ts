@@ -0,0 +1,63 @@
+import { schema } from "@ryukez/a2a-sdk";
+
+/** Returns whether the artifact is a chunk of a streamed artifact (A2A `append` / `lastChunk`) */
+export const isChunk = (artifact: schema.Artifact): boolean =>
+  artifact.append === true || artifact.lastChunk === false;
+
+/**
+ * Adds a chunk to the artifact assembled so far. Parts of a chunk with `append`
+ * are appended to the previous ones, other chunks start a new artifact.
+ */
+export const appendChunk = (
+  assembled: schema.Artifact | undefined,
+  chunk: schema.Artifact
+): schema.Artifact => ({
+  ...chunk,
+  parts: [
+    ...(chunk.append && assembled ? assembled.parts : []),
+    ...chunk.parts,
+  ],
+});
+
+/** Strips the streaming fields of an assembled artifact */
+export const completeArtifact = ({
+  append: _append,
+  lastChunk: _lastChunk,
+  ...artifact
+}: schema.Artifact): schema.Artifact => artifact;
+
+/**
+ * Assembles streamed artifacts stored as separate chunks, identified by `key`
+ * (artifacts without a key are kept as is). Artifacts whose last chunk was never
+ * received are incomplete and dropped.
+ */
+export const assembleChunks = (
+  artifacts: schema.Artifact[],
+  key: (artifact: schema.Artifact) => string | undefined
+): schema.Artifact[] => {
+  const result: (schema.Artifact | undefined)[] = [];
+  // Position in `result` of the artifact being assembled, by key
+  const positions = new Map<string, number>();
+
+  for (const artifact of artifacts) {
+    const k = key(artifact);
+    if (k === undefined) {
+      result.push(artifact);
+      continue;
+    }
+
+    const position = positions.get(k);
+    if (artifact.append && position !== undefined) {
+      result[position] = appendChunk(result[position], artifact);
+    } else {
+      // A new version of the artifact replaces the previous one
+      if (position !== undefined) result[position] = undefined;
+      positions.set(k, result.length);
+      result.push(appendChunk(undefined, artifact));
+    }
+  }
+
+  return result.flatMap((a) =>
+    a && a.lastChunk !== false ? [completeArtifact(a)] : []
+  );
+};
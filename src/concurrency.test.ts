@@ -0,0 +1,93 @@
+import { mergeJobs, scheduleJobs } from "./concurrency";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Job that yields `values` with `delay` ms between them and records its lifecycle
+const createJob = (values: string[], delay: number, log: string[] = []) =>
+  async function* () {
+    log.push(`start:${values[0]}`);
+    try {
+      for (const v of values) {
+        await sleep(delay);
+        yield v;
+      }
+    } finally {
+      log.push(`end:${values[0]}`);
+    }
+  };
+
+const collect = async <T>(gen: AsyncGenerator<T>) => {
+  const out: T[] = [];
+  for await (const v of gen) out.push(v);
+  return out;
+};
+
+describe("mergeJobs", () => {
+  it("runs jobs sequentially with concurrency 1", async () => {
+    const out = await collect(
+      mergeJobs([createJob(["a1", "a2"], 10), createJob(["b1", "b2"], 1)], 1)
+    );
+    expect(out).toEqual(["a1", "a2", "b1", "b2"]);
+  });
+
+  it("interleaves values of concurrently running jobs", async () => {
+    const out = await collect(
+      mergeJobs([createJob(["a1", "a2"], 30), createJob(["b1", "b2"], 10)], 2)
+    );
+    expect(out).toEqual(["b1", "b2", "a1", "a2"]);
+  });
+
+  it("does not start more jobs than maxConcurrency", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const job = async function* () {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(5);
+      yield 1;
+      active--;
+    };
+
+    await collect(mergeJobs([job, job, job, job, job], 2));
+    expect(maxActive).toBe(2);
+  });
+
+  it("rethrows the first error and closes the other jobs", async () => {
+    const log: string[] = [];
+    const failing = async function* () {
+      await sleep(5);
+      throw new Error("boom");
+    };
+
+    await expect(
+      collect(mergeJobs([createJob(["a1", "a2", "a3"], 3, log), failing], 2))
+    ).rejects.toThrow("boom");
+
+    await sleep(20);
+    expect(log).toEqual(["start:a1", "end:a1"]);
+  });
+
+  it("throws on invalid concurrency", async () => {
+    await expect(collect(mergeJobs([], 0))).rejects.toThrow(
+      /Invalid concurrency/
+    );
+  });
+});
+
+describe("scheduleJobs", () => {
+  it("asks for new jobs every time a job completes", async () => {
+    const log: string[] = [];
+    let calls = 0;
+    const nextJobs = () => {
+      calls++;
+      // The second job only becomes ready once the first one completed
+      if (calls === 1) return [createJob(["a"], 5, log)];
+      if (calls === 2) return [createJob(["b"], 5, log)];
+      return [];
+    };
+
+    const out = await collect(scheduleJobs(nextJobs, 4));
+    expect(out).toEqual(["a", "b"]);
+    expect(log).toEqual(["start:a", "end:a", "start:b", "end:b"]);
+  });
+});
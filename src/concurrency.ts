@@ -0,0 +1,122 @@
+/**
+ * A lazily started async generator. The function is only invoked once the
+ * job is given a slot, so queued jobs do not start any work up front.
+ */
+export type Job<T> = () => AsyncGenerator<T, unknown, unknown>;
+
+type Pulled<T> = {
+  gen: AsyncGenerator<T, unknown, unknown>;
+  result: IteratorResult<T, unknown>;
+};
+
+/**
+ * Runs jobs handed out by `nextJobs` with at most `maxConcurrency` of them in
+ * flight and merges their yielded values into a single stream, in the order
+ * they are produced.
+ *
+ * `nextJobs` is called once up front and again every time a job completes, and
+ * returns the jobs that became ready since the previous call. This allows
+ * dependency-driven scheduling where finishing one job unlocks others.
+ *
+ * If any job throws, the remaining jobs are closed and the error is rethrown,
+ * so the merged stream fails with the first error that was observed.
+ *
+ * Once `signal` is aborted no new job is started, running jobs are closed and
+ * the stream ends without an error.
+ */
+export async function* scheduleJobs<T>(
+  nextJobs: () => Job<T>[],
+  maxConcurrency = Infinity,
+  signal?: AbortSignal
+): AsyncGenerator<T, void, unknown> {
+  if (!(maxConcurrency >= 1)) {
+    throw new Error(`Invalid concurrency: ${maxConcurrency}`);
+  }
+
+  const queue: Job<T>[] = [];
+  const running = new Map<
+    AsyncGenerator<T, unknown, unknown>,
+    Promise<Pulled<T>>
+  >();
+
+  const pull = (gen: AsyncGenerator<T, unknown, unknown>) =>
+    gen.next().then((result) => ({ gen, result }));
+
+  // Resolves with null when the signal is aborted
+  let onAbort = () => {};
+  const aborted = new Promise<null>((resolve) => {
+    onAbort = () => resolve(null);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  // Start queued jobs while there are free slots
+  const fill = () => {
+    while (
+      !signal?.aborted &&
+      running.size < maxConcurrency &&
+      queue.length > 0
+    ) {
+      const gen = queue.shift()!();
+      running.set(gen, pull(gen));
+    }
+  };
+
+  try {
+    queue.push(...nextJobs());
+    fill();
+    while (running.size > 0 && !signal?.aborted) {
+      const pulled = await Promise.race([...running.values(), aborted]);
+      if (!pulled) break;
+
+      const { gen, result } = pulled;
+      if (result.done) {
+        running.delete(gen);
+        queue.push(...nextJobs());
+        fill();
+        continue;
+      }
+
+      yield result.value;
+
+      // Only advance the job once the consumer has handled its value
+      running.set(gen, pull(gen));
+    }
+  } catch (e) {
+    // Errors caused by the cancellation itself are not reported
+    if (!signal?.aborted) throw e;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+
+    // Close jobs that are still in flight (on error, cancellation or early return)
+    for (const gen of running.keys()) {
+      gen.return(undefined).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Runs a fixed list of jobs with at most `maxConcurrency` of them in flight.
+ * See `scheduleJobs` for the merging, error and cancellation semantics.
+ *
+ * @example
+ *   for await (const v of mergeJobs([jobA, jobB, jobC], 2)) {
+ *     // values of jobA and jobB interleaved, jobC starts when either finishes
+ *   }
+ */
+export function mergeJobs<T>(
+  jobs: Job<T>[],
+  maxConcurrency = Infinity,
+  signal?: AbortSignal
+): AsyncGenerator<T, void, unknown> {
+  let pending = [...jobs];
+  return scheduleJobs(
+    () => {
+      const ready = pending;
+      pending = [];
+      return ready;
+    },
+    maxConcurrency,
+    signal
+  );
+}
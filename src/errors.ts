@@ -0,0 +1,105 @@
+/**
+ * Thrown when a single build attempt takes longer than the builder's `timeoutMs`.
+ */
+export class BuilderTimeoutError extends Error {
+  constructor(
+    public readonly builderName: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`${builderName}: Build attempt timed out after ${timeoutMs}ms`);
+    this.name = "BuilderTimeoutError";
+  }
+}
+
+/** A structural problem of an artifact graph, as reported by `ArtifactGraph.validate` */
+export type GraphIssue = { message: string } & (
+  | { type: "duplicate-builder-name"; builder: string }
+  | { type: "duplicate-producer"; artifact: string; builders: string[] }
+  /** `path` lists builder names, starting and ending with the same builder */
+  | { type: "cycle"; path: string[] }
+  | { type: "orphan-factory"; artifact: string }
+  | {
+      type: "dangling-condition-reference";
+      /** Index of the condition in the graph's `conditions` */
+      condition: number;
+      /** `"inputs"`, or the branch referencing the artifact (`"then"`, `"else"`, a case key or `"default"`) */
+      field: string;
+      artifact: string;
+    }
+  | { type: "unreachable-artifacts"; artifacts: string[] }
+  /** `builder` is the builder whose `onError` names the fallback */
+  | { type: "invalid-fallback"; builder: string; fallback: string }
+);
+
+/**
+ * Thrown at construction when an artifact graph has structural problems.
+ * All problems found are reported at once in `issues`.
+ */
+export class GraphValidationError extends Error {
+  constructor(public readonly issues: GraphIssue[]) {
+    super(
+      `Invalid artifact graph:\n${issues
+        .map((issue) => `  - ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "GraphValidationError";
+  }
+}
+
+/**
+ * Thrown in strict mode when a builder yields an artifact that is not listed in its `outputs()`.
+ */
+export class UndeclaredOutputError extends Error {
+  constructor(
+    public readonly builderName: string,
+    public readonly artifactId: string
+  ) {
+    super(
+      `${builderName}: Yielded artifact ${artifactId} which is not declared in outputs`
+    );
+    this.name = "UndeclaredOutputError";
+  }
+}
+
+/**
+ * Thrown in strict mode when a builder completes without yielding some of its declared outputs.
+ */
+export class MissingOutputError extends Error {
+  constructor(
+    public readonly builderName: string,
+    public readonly artifactIds: string[]
+  ) {
+    super(
+      `${builderName}: Completed without yielding declared output(s) ${artifactIds.join(
+        ", "
+      )}`
+    );
+    this.name = "MissingOutputError";
+  }
+}
+
+/**
+ * Thrown by a map builder when some of its items failed. The results of the
+ * other items are recorded, so only the failed items are computed again on resume.
+ */
+export class MapItemsError extends Error {
+  constructor(
+    public readonly builderName: string,
+    public readonly failures: { index: number; error: unknown }[],
+    public readonly itemCount: number
+  ) {
+    super(
+      `${builderName}: ${
+        failures.length
+      } of ${itemCount} item(s) failed: ${failures
+        .map(
+          ({ index, error }) =>
+            `#${index}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+        )
+        .join("; ")}`
+    );
+    this.name = "MapItemsError";
+  }
+}
@@ -0,0 +1,84 @@
+import { GraphDescription, renderDot, renderMermaid } from "./export";
+
+/*
+  Step 1: () -> step1
+  Step 2: (step1) -> step2, gated by a condition on step1
+*/
+const graph: GraphDescription = {
+  artifacts: [{ id: "step1", state: "present" }, { id: "step2" }],
+  builders: [
+    { name: "Step 1", inputs: [], outputs: ["step1"], state: "skipped" },
+    { name: 'Step "2"', inputs: ["step1"], outputs: ["step2"] },
+  ],
+  conditionEdges: [{ artifact: "step1", builder: 1, label: "condition 1" }],
+};
+
+describe("renderMermaid", () => {
+  it("renders artifacts, builders, conditions and states", () => {
+    expect(renderMermaid(graph)).toBe(
+      [
+        "flowchart LR",
+        '  artifact_step1(["step1"])',
+        '  artifact_step2(["step2"])',
+        '  builder_0["Step 1"]',
+        '  builder_1["Step #quot;2#quot;"]',
+        "  builder_0 --> artifact_step1",
+        "  artifact_step1 --> builder_1",
+        "  builder_1 --> artifact_step2",
+        '  artifact_step1 -.->|"condition 1"| builder_1',
+        "  classDef present fill:#d4edda,stroke:#28a745",
+        "  class artifact_step1 present",
+        "  classDef skipped fill:#e2e3e5,stroke:#6c757d",
+        "  class builder_0 skipped",
+      ].join("\n")
+    );
+  });
+
+  it("sanitizes node ids", () => {
+    const out = renderMermaid({
+      artifacts: [{ id: "my-artifact.v2" }],
+      builders: [],
+      conditionEdges: [],
+    });
+    expect(out).toContain('artifact_my_artifact_v2(["my-artifact.v2"])');
+  });
+});
+
+describe("renderDot", () => {
+  it("renders artifacts, builders, conditions and states", () => {
+    expect(renderDot(graph)).toBe(
+      [
+        "digraph ArtifactGraph {",
+        "  rankdir=LR;",
+        '  artifact_step1 [label="step1", shape=ellipse, style=filled, fillcolor="#d4edda", color="#28a745"];',
+        '  artifact_step2 [label="step2", shape=ellipse];',
+        '  builder_0 [label="Step 1", shape=box, style=filled, fillcolor="#e2e3e5", color="#6c757d"];',
+        '  builder_1 [label="Step \\"2\\"", shape=box];',
+        "  builder_0 -> artifact_step1;",
+        "  artifact_step1 -> builder_1;",
+        "  builder_1 -> artifact_step2;",
+        '  artifact_step1 -> builder_1 [style=dashed, label="condition 1"];',
+        "}",
+      ].join("\n")
+    );
+  });
+});
+
+describe("optional inputs", () => {
+  const withOptional: GraphDescription = {
+    artifacts: [{ id: "a" }, { id: "b" }],
+    builders: [
+      { name: "B", inputs: [], optionalInputs: ["a"], outputs: ["b"] },
+    ],
+    conditionEdges: [],
+  };
+
+  it("are rendered as dotted edges", () => {
+    expect(renderMermaid(withOptional)).toContain(
+      "  artifact_a -.-> builder_0"
+    );
+    expect(renderDot(withOptional)).toContain(
+      "  artifact_a -> builder_0 [style=dotted];"
+    );
+  });
+});
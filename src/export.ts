@@ -0,0 +1,138 @@
+/** State of a node for a given task, used to colour exported diagrams */
+export type NodeState = "present" | "missing" | "skipped";
+
+/** Graph structure consumed by the exporters */
+export type GraphDescription = {
+  artifacts: { id: string; state?: NodeState }[];
+  builders: {
+    name: string;
+    inputs: readonly string[];
+    /** Drawn as dotted edges */
+    optionalInputs?: readonly string[];
+    outputs: readonly string[];
+    state?: NodeState;
+  }[];
+  /** Edges from condition inputs to the builders the condition gates */
+  conditionEdges: { artifact: string; builder: number; label: string }[];
+};
+
+const COLORS: Record<NodeState, { fill: string; stroke: string }> = {
+  present: { fill: "#d4edda", stroke: "#28a745" },
+  missing: { fill: "#f8d7da", stroke: "#dc3545" },
+  skipped: { fill: "#e2e3e5", stroke: "#6c757d" },
+};
+
+// Node ids only contain safe characters; labels carry the actual names.
+// Builders are identified by index as their names are not guaranteed to be unique.
+const artifactNode = (id: string) =>
+  `artifact_${id.replace(/[^A-Za-z0-9_]/g, "_")}`;
+const builderNode = (index: number) => `builder_${index}`;
+
+const escapeLabel = (label: string) => label.replace(/"/g, "#quot;");
+
+/**
+ * Renders the graph as a Mermaid flowchart.
+ * Artifacts are drawn as stadiums, builders as rectangles, and optional inputs and
+ * conditions as dotted edges (conditions are labelled).
+ */
+export const renderMermaid = (graph: GraphDescription): string => {
+  const lines = ["flowchart LR"];
+
+  for (const a of graph.artifacts) {
+    lines.push(`  ${artifactNode(a.id)}(["${escapeLabel(a.id)}"])`);
+  }
+  graph.builders.forEach((b, i) => {
+    lines.push(`  ${builderNode(i)}["${escapeLabel(b.name)}"]`);
+  });
+
+  graph.builders.forEach((b, i) => {
+    for (const input of b.inputs) {
+      lines.push(`  ${artifactNode(input)} --> ${builderNode(i)}`);
+    }
+    for (const input of b.optionalInputs ?? []) {
+      lines.push(`  ${artifactNode(input)} -.-> ${builderNode(i)}`);
+    }
+    for (const output of b.outputs) {
+      lines.push(`  ${builderNode(i)} --> ${artifactNode(output)}`);
+    }
+  });
+  for (const e of graph.conditionEdges) {
+    lines.push(
+      `  ${artifactNode(e.artifact)} -.->|"${escapeLabel(
+        e.label
+      )}"| ${builderNode(e.builder)}`
+    );
+  }
+
+  /* Colour nodes by state */
+  const byState = new Map<NodeState, string[]>();
+  const addState = (node: string, state?: NodeState) => {
+    if (state) byState.set(state, [...(byState.get(state) ?? []), node]);
+  };
+  graph.artifacts.forEach((a) => addState(artifactNode(a.id), a.state));
+  graph.builders.forEach((b, i) => addState(builderNode(i), b.state));
+
+  for (const [state, nodes] of byState) {
+    const { fill, stroke } = COLORS[state];
+    lines.push(`  classDef ${state} fill:${fill},stroke:${stroke}`);
+    lines.push(`  class ${nodes.join(",")} ${state}`);
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Renders the graph in Graphviz DOT format.
+ * Artifacts are drawn as ellipses, builders as boxes, optional inputs as dotted
+ * edges and conditions as dashed edges.
+ */
+export const renderDot = (graph: GraphDescription): string => {
+  const quote = (s: string) => `"${s.replace(/(["\\])/g, "\\$1")}"`;
+  const style = (state?: NodeState) =>
+    state
+      ? `, style=filled, fillcolor=${quote(COLORS[state].fill)}, color=${quote(
+          COLORS[state].stroke
+        )}`
+      : "";
+
+  const lines = ["digraph ArtifactGraph {", "  rankdir=LR;"];
+
+  for (const a of graph.artifacts) {
+    lines.push(
+      `  ${artifactNode(a.id)} [label=${quote(a.id)}, shape=ellipse${style(
+        a.state
+      )}];`
+    );
+  }
+  graph.builders.forEach((b, i) => {
+    lines.push(
+      `  ${builderNode(i)} [label=${quote(b.name)}, shape=box${style(
+        b.state
+      )}];`
+    );
+  });
+
+  graph.builders.forEach((b, i) => {
+    for (const input of b.inputs) {
+      lines.push(`  ${artifactNode(input)} -> ${builderNode(i)};`);
+    }
+    for (const input of b.optionalInputs ?? []) {
+      lines.push(
+        `  ${artifactNode(input)} -> ${builderNode(i)} [style=dotted];`
+      );
+    }
+    for (const output of b.outputs) {
+      lines.push(`  ${builderNode(i)} -> ${artifactNode(output)};`);
+    }
+  });
+  for (const e of graph.conditionEdges) {
+    lines.push(
+      `  ${artifactNode(e.artifact)} -> ${builderNode(
+        e.builder
+      )} [style=dashed, label=${quote(e.label)}];`
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+};
@@ -0,0 +1,169 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { z } from "zod";
+import { ArtifactGraph, RetryPolicy } from "./artifact_graph";
+import { dataArtifact } from "./artifact";
+import { MapItemsError } from "./errors";
+import { defineMapBuilder } from "./fan_out";
+
+const Queries = dataArtifact("queries", z.array(z.object({ q: z.string() })));
+const Answers = dataArtifact("answers", z.array(z.object({ a: z.string() })));
+
+type Artifacts = readonly [
+  InstanceType<typeof Queries>,
+  InstanceType<typeof Answers>
+];
+
+const factories = {
+  queries: (a: schema.Artifact) => new Queries(a),
+  answers: (a: schema.Artifact) => new Answers(a),
+};
+
+const queriesBuilder = {
+  name: "queries",
+  inputs: () => [] as const,
+  outputs: () => ["queries"] as const,
+  build: async function* () {
+    yield Queries.fromData({ data: [{ q: "a" }, { q: "b" }, { q: "c" }] });
+  },
+};
+
+const createGraph = (
+  mapItem: (item: { q: string }) => Promise<string>,
+  retry?: RetryPolicy
+) => {
+  const spy = jest.fn(async ({ item }: { item: { q: string } }) => ({
+    a: await mapItem(item),
+  }));
+  const graph = new ArtifactGraph<Artifacts>(factories, [
+    queriesBuilder,
+    defineMapBuilder<Artifacts>()({
+      name: "answer",
+      input: "queries",
+      output: "answers",
+      concurrency: 2,
+      retry,
+      mapItem: spy,
+      gather: (results) => Answers.fromData({ data: results }),
+    }),
+  ]);
+  return { graph, spy };
+};
+
+const collect = async (graph: ArtifactGraph<Artifacts>, task: schema.Task) => {
+  const artifacts: schema.Artifact[] = [];
+  try {
+    for await (const o of graph.run({ task })) {
+      if ("parts" in o) artifacts.push(o);
+    }
+  } catch (error) {
+    return { artifacts, error };
+  }
+  return { artifacts, error: undefined };
+};
+
+const emptyTask = (): schema.Task => ({
+  id: "t1",
+  status: { state: "submitted" },
+});
+
+describe("defineMapBuilder", () => {
+  it("maps every item and gathers the results in order", async () => {
+    const { graph, spy } = createGraph(async ({ q }) => q.toUpperCase());
+
+    const { artifacts, error } = await collect(graph, emptyTask());
+
+    expect(error).toBeUndefined();
+    expect(spy).toHaveBeenCalledTimes(3);
+    const items = artifacts.filter((a) => a.metadata?.["artifactGraph.item"]);
+    expect(items.map((a) => a.metadata?.["artifactGraph.item"])).toEqual([
+      { id: "answers", index: 0 },
+      { id: "answers", index: 1 },
+      { id: "answers", index: 2 },
+    ]);
+    const answers = artifacts.find(
+      (a) => a.metadata?.["artifactGraph.id"] === "answers"
+    )!;
+    expect(new Answers(answers).parsed()).toEqual([
+      { a: "A" },
+      { a: "B" },
+      { a: "C" },
+    ]);
+  });
+
+  it("only computes the failed items again when retried", async () => {
+    let failed = false;
+    const { graph, spy } = createGraph(
+      async ({ q }) => {
+        if (q === "b" && !failed) {
+          failed = true;
+          throw new Error("transient");
+        }
+        return q.toUpperCase();
+      },
+      { maxAttempts: 2, initialDelayMs: 1 }
+    );
+
+    const { artifacts, error } = await collect(graph, emptyTask());
+
+    expect(error).toBeUndefined();
+    expect(spy.mock.calls.map(([{ item }]) => item.q)).toEqual([
+      "a",
+      "b",
+      "c",
+      "b",
+    ]);
+    const answers = artifacts.find(
+      (a) => a.metadata?.["artifactGraph.id"] === "answers"
+    );
+    expect(answers?.parts[0]).toEqual({
+      type: "data",
+      data: [{ a: "A" }, { a: "B" }, { a: "C" }],
+    });
+  });
+
+  it("computes every item again when the output is invalidated", async () => {
+    const { graph, spy } = createGraph(async ({ q }) => q);
+    const task = emptyTask();
+    task.artifacts = (await collect(graph, task)).artifacts;
+
+    for await (const _ of graph.run({ task, invalidate: ["answers"] })) {
+      /* discard */
+    }
+
+    expect(spy).toHaveBeenCalledTimes(6);
+  });
+
+  it("records the other items when some fail and resumes only the failed ones", async () => {
+    const failing = createGraph(async ({ q }) => {
+      if (q === "b") throw new Error("rate limited");
+      return q;
+    });
+    const first = await collect(failing.graph, emptyTask());
+
+    expect(first.error).toBeInstanceOf(MapItemsError);
+    expect((first.error as MapItemsError).message).toBe(
+      "answer: 1 of 3 item(s) failed: #1: rate limited"
+    );
+    expect((first.error as MapItemsError).failures.map((f) => f.index)).toEqual(
+      [1]
+    );
+
+    const resumed = createGraph(async ({ q }) => q);
+    const second = await collect(resumed.graph, {
+      ...emptyTask(),
+      artifacts: first.artifacts,
+    });
+
+    expect(second.error).toBeUndefined();
+    expect(resumed.spy).toHaveBeenCalledTimes(1);
+    expect(resumed.spy.mock.calls[0][0].item).toEqual({ q: "b" });
+    const answers = second.artifacts.find(
+      (a) => a.metadata?.["artifactGraph.id"] === "answers"
+    )!;
+    expect(new Answers(answers).parsed()).toEqual([
+      { a: "a" },
+      { a: "b" },
+      { a: "c" },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { schema } from "@ryukez/a2a-sdk";
+import type {
+  ArtifactBuilder,
+  ArtifactRecord,
+  RetryPolicy,
+  UniqueArtifact,
+} from "./artifact_graph";
+import { mergeJobs } from "./concurrency";
+import { MapItemsError } from "./errors";
+import { itemFingerprint } from "./fingerprint";
+
+/** Element type of an artifact whose `parsed()` returns an array */
+type ItemOf<A> = A extends { parsed(): readonly (infer T)[] } ? T : never;
+
+/** Configuration of a builder mapped over the items of an array artifact */
+export type MapBuilderConfig<
+  All extends readonly UniqueArtifact[],
+  I extends keyof ArtifactRecord<All>,
+  O extends keyof ArtifactRecord<All>,
+  R extends Record<string, unknown>
+> = {
+  name: string;
+
+  /** Artifact holding the items, e.g. a `dataArtifact` with an array schema */
+  input: I;
+  /** Artifact gathering the results of every item */
+  output: O;
+
+  /** Maximum number of items computed at the same time. Defaults to 1 */
+  concurrency?: number;
+
+  /** Retries the build when items fail. Items that succeeded in earlier attempts are not computed again */
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  /** Changing it invalidates item results recorded by previous versions */
+  version?: string;
+
+  /** Computes the result of a single item */
+  mapItem(context: {
+    task: schema.Task;
+    history?: schema.Message[];
+    item: ItemOf<ArtifactRecord<All>[I]>;
+    index: number;
+    signal?: AbortSignal;
+  }): Promise<R>;
+
+  /** Creates the output artifact from the results, in the order of the items */
+  gather(results: R[]): ArtifactRecord<All>[O];
+};
+
+/**
+ * Creates a builder that computes `mapItem` once per element of the input array
+ * (fan-out) and gathers the results into a single output artifact (fan-in).
+ *
+ * Each item result is yielded as its own artifact, with
+ * `metadata["artifactGraph.item"] = { id: output, index }`. When some items fail
+ * the others are still recorded, and a retry (or a resumed task) only computes
+ * the failed (or changed) items again. Invalidating the output (or an artifact
+ * it derives from) with `invalidate` discards the recorded item results.
+ *
+ * @example
+ *   const summarize = defineMapBuilder<Artifacts>()({
+ *     name: "Summarize",
+ *     input: "searchResults",
+ *     output: "summaries",
+ *     concurrency: 4,
+ *     mapItem: async ({ item }) => ({ summary: await summarize(item.url) }),
+ *     gather: (results) => SummariesArtifact.fromData({ data: results }),
+ *   });
+ */
+export const defineMapBuilder =
+  <All extends readonly UniqueArtifact[]>() =>
+  <
+    I extends keyof ArtifactRecord<All>,
+    O extends keyof ArtifactRecord<All>,
+    R extends Record<string, unknown>
+  >(
+    cfg: MapBuilderConfig<All, I, O, R>
+  ): ArtifactBuilder<All, readonly [I], readonly [O]> => {
+    // Item results by item fingerprint, per task. The task object is shared by
+    // every attempt of a run, so retries reuse the results of previous attempts.
+    const computed = new WeakMap<schema.Task, Map<string, R>>();
+
+    return {
+      name: cfg.name,
+      retry: cfg.retry,
+      timeoutMs: cfg.timeoutMs,
+      version: cfg.version,
+      inputs: () => [cfg.input] as const,
+      outputs: () => [cfg.output] as const,
+
+      async *build({ task, history, inputs, signal }) {
+        const items = (
+          inputs[cfg.input] as unknown as { parsed(): readonly unknown[] }
+        ).parsed();
+
+        // Item results computed by previous attempts or recorded by previous runs
+        const recorded = computed.get(task) ?? new Map<string, R>();
+        computed.set(task, recorded);
+        for (const artifact of task.artifacts ?? []) {
+          const metadata = artifact.metadata ?? {};
+          const item = metadata["artifactGraph.item"] as
+            | { id: string; index: number }
+            | undefined;
+          if (item?.id === cfg.output && artifact.parts[0]?.type === "data") {
+            recorded.set(
+              metadata["artifactGraph.fingerprint"] as string,
+              artifact.parts[0].data as R
+            );
+          }
+        }
+
+        const results: R[] = new Array(items.length);
+        const failures: { index: number; error: unknown }[] = [];
+
+        yield* mergeJobs(
+          items.map(
+            (item, index) =>
+              async function* () {
+                const fingerprint = itemFingerprint(cfg, item);
+                const cached = recorded.get(fingerprint);
+                if (cached !== undefined) {
+                  results[index] = cached;
+                  return;
+                }
+
+                try {
+                  results[index] = await cfg.mapItem({
+                    task,
+                    history,
+                    item: item as ItemOf<ArtifactRecord<All>[I]>,
+                    index,
+                    signal,
+                  });
+                } catch (error) {
+                  // Keep computing the other items so that their results are recorded
+                  failures.push({ index, error });
+                  return;
+                }
+                recorded.set(fingerprint, results[index]);
+
+                const artifact: schema.Artifact = {
+                  name: `${String(cfg.output)}[${index}]`,
+                  parts: [{ type: "data", data: results[index] }],
+                  metadata: {
+                    "artifactGraph.item": { id: cfg.output, index },
+                    "artifactGraph.fingerprint": fingerprint,
+                  },
+                };
+                yield artifact;
+              }
+          ),
+          cfg.concurrency ?? 1,
+          signal
+        );
+
+        if (signal?.aborted) throw signal.reason;
+        if (failures.length > 0) {
+          throw new MapItemsError(
+            cfg.name,
+            failures.sort((a, b) => a.index - b.index),
+            items.length
+          );
+        }
+
+        yield cfg.gather(results);
+      },
+    };
+  };
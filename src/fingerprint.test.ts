@@ -0,0 +1,102 @@
+import { schema } from "@ryukez/a2a-sdk";
+import {
+  artifactFingerprint,
+  cacheKey,
+  canonicalJson,
+  conditionFingerprint,
+  inputsFingerprint,
+} from "./fingerprint";
+import { UniqueArtifact } from "./artifact_graph";
+
+describe("canonicalJson", () => {
+  it("does not depend on object key order", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: 2 } })).toBe(
+      canonicalJson({ a: { c: 2, d: [1, { e: 3, f: 2 }] }, b: 1 })
+    );
+  });
+});
+
+describe("inputsFingerprint", () => {
+  const builder = (version?: string) =>
+    ({ name: "b", version, inputs: () => ["a"], outputs: () => ["b"] } as any);
+  const input = (text: string) => ({
+    a: new UniqueArtifact("a", {
+      parts: [{ type: "text", text }],
+      metadata: { ignored: Math.random() },
+    }),
+  });
+
+  it("is stable for the same version and input parts", () => {
+    expect(inputsFingerprint(builder("1"), input("x"))).toBe(
+      inputsFingerprint(builder("1"), input("x"))
+    );
+  });
+
+  it("changes when the input parts change", () => {
+    expect(inputsFingerprint(builder(), input("x"))).not.toBe(
+      inputsFingerprint(builder(), input("y"))
+    );
+  });
+
+  it("changes when the builder version changes", () => {
+    expect(inputsFingerprint(builder("1"), input("x"))).not.toBe(
+      inputsFingerprint(builder("2"), input("x"))
+    );
+  });
+});
+
+describe("artifactFingerprint", () => {
+  it("only depends on the parts of the artifact", () => {
+    const artifact = (text: string): schema.Artifact => ({
+      parts: [{ type: "text", text }],
+      metadata: { ignored: Math.random() },
+    });
+    expect(artifactFingerprint(artifact("x"))).toBe(
+      artifactFingerprint(artifact("x"))
+    );
+    expect(artifactFingerprint(artifact("x"))).not.toBe(
+      artifactFingerprint(artifact("y"))
+    );
+  });
+});
+
+describe("conditionFingerprint", () => {
+  const input = (text: string) => ({
+    a: new UniqueArtifact("a", { parts: [{ type: "text", text }] }),
+  });
+
+  it("depends on the layout of the condition and the input parts", () => {
+    const condition = { inputs: ["a"], if: () => true, then: ["b"] };
+    const other = { inputs: ["a"], if: () => true, then: ["c"] };
+
+    expect(conditionFingerprint(condition, input("x"))).toBe(
+      conditionFingerprint({ ...condition, if: () => false }, input("x"))
+    );
+    expect(conditionFingerprint(condition, input("x"))).not.toBe(
+      conditionFingerprint(other, input("x"))
+    );
+    expect(conditionFingerprint(condition, input("x"))).not.toBe(
+      conditionFingerprint(condition, input("y"))
+    );
+  });
+});
+
+describe("cacheKey", () => {
+  const builder = (name: string) =>
+    ({ name, inputs: () => ["a"], outputs: () => ["b"] } as any);
+  const input = (text: string) => ({
+    a: new UniqueArtifact("a", { parts: [{ type: "text", text }] }),
+  });
+
+  it("depends on the builder name and the input parts", () => {
+    expect(cacheKey(builder("b"), input("x"))).toBe(
+      cacheKey(builder("b"), input("x"))
+    );
+    expect(cacheKey(builder("b"), input("x"))).not.toBe(
+      cacheKey(builder("c"), input("x"))
+    );
+    expect(cacheKey(builder("b"), input("x"))).not.toBe(
+      cacheKey(builder("b"), input("y"))
+    );
+  });
+});
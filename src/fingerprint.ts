@@ -0,0 +1,94 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { createHash } from "crypto";
+import type {
+  ArtifactBuilder,
+  ArtifactCondition,
+  UniqueArtifact,
+} from "./artifact_graph";
+import { conditionBranches } from "./graph";
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+};
+
+/** Serializes a value to JSON with sorted object keys, so equal values give equal strings */
+export const canonicalJson = (value: unknown): string =>
+  JSON.stringify(sortKeys(value));
+
+/**
+ * Fingerprint of what a builder (or a condition) computes its result from: the
+ * builder version and the parts of every input artifact.
+ */
+export const inputsFingerprint = (
+  builder: Pick<ArtifactBuilder<any, any, any>, "version">,
+  inputs: Record<string, UniqueArtifact | undefined>
+): string => {
+  const content = Object.keys(inputs)
+    .sort()
+    .map((id) => [id, inputs[id]?.artifact.parts ?? null]);
+
+  return createHash("sha256")
+    .update(
+      canonicalJson({ version: builder.version ?? null, inputs: content })
+    )
+    .digest("hex");
+};
+
+/**
+ * Fingerprint of what a condition's branch is taken from: the parts of its
+ * inputs, and the layout of the condition (input ids and the artifacts of each
+ * branch), so that the result is not reused by another condition.
+ */
+export const conditionFingerprint = (
+  condition: ArtifactCondition<any, any, any>,
+  inputs: Record<string, UniqueArtifact | undefined>
+): string =>
+  createHash("sha256")
+    .update(
+      canonicalJson({
+        condition: {
+          inputs: condition.inputs,
+          branches: conditionBranches(condition),
+        },
+        fingerprint: inputsFingerprint({}, inputs),
+      })
+    )
+    .digest("hex");
+
+/** Fingerprint of the content (parts) of a single artifact */
+export const artifactFingerprint = (artifact: schema.Artifact): string =>
+  createHash("sha256").update(canonicalJson(artifact.parts)).digest("hex");
+
+/** Fingerprint of a single item a map builder computes a result from */
+export const itemFingerprint = (
+  builder: Pick<ArtifactBuilder<any, any, any>, "version">,
+  item: unknown
+): string =>
+  createHash("sha256")
+    .update(canonicalJson({ version: builder.version ?? null, item }))
+    .digest("hex");
+
+/**
+ * Key of a builder's outputs in an `ArtifactCache`: the builder name, combined
+ * with the fingerprint of its version and input parts.
+ */
+export const cacheKey = (
+  builder: Pick<ArtifactBuilder<any, any, any>, "name" | "version">,
+  inputs: Record<string, UniqueArtifact | undefined>
+): string =>
+  createHash("sha256")
+    .update(
+      canonicalJson({
+        builder: builder.name,
+        fingerprint: inputsFingerprint(builder, inputs),
+      })
+    )
+    .digest("hex");
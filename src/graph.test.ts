@@ -1,4 +1,11 @@
-import { sortBuilders, findUnreachableArtifacts } from "./graph";
+import {
+  sortBuilders,
+  findUnreachableArtifacts,
+  builderDependencies,
+  findRequiredBuilders,
+  validateGraph,
+  builderGates,
+} from "./graph";
 import { ArtifactBuilder } from "./artifact_graph";
 
 // Helper to create dummy builders without caring about generic params
@@ -18,6 +25,41 @@ const createBuilder = (
   } as any;
 };
 
+describe("builderDependencies", () => {
+  it("maps each builder to the builders producing its inputs", () => {
+    const b1 = createBuilder("b1", [], ["A"]);
+    const b2 = createBuilder("b2", ["X"], ["B"]); // X is not produced by any builder
+    const b3 = createBuilder("b3", ["A", "B"], ["C"]);
+
+    const deps = builderDependencies([b1, b2, b3]);
+
+    expect(deps.get(b1)).toEqual(new Set());
+    expect(deps.get(b2)).toEqual(new Set());
+    expect(deps.get(b3)).toEqual(new Set([b1, b2]));
+  });
+
+  it("includes the producers of optional inputs", () => {
+    const b1 = createBuilder("b1", [], ["A"]);
+    const b2 = createBuilder("b2", [], ["B"]);
+    const b3 = {
+      ...createBuilder("b3", ["A"], ["C"]),
+      optionalInputs: () => ["B"],
+    };
+
+    expect(builderDependencies([b1, b2, b3]).get(b3)).toEqual(
+      new Set([b1, b2])
+    );
+  });
+
+  it("includes the producers of extra inputs", () => {
+    const b1 = createBuilder("b1", [], ["A"]);
+    const b2 = createBuilder("b2", [], ["B"]);
+
+    const deps = builderDependencies([b1, b2], (b) => (b === b2 ? ["A"] : []));
+    expect(deps.get(b2)).toEqual(new Set([b1]));
+  });
+});
+
 describe("sortBuilders", () => {
   it("orders builders respecting dependencies (example from doc string)", () => {
     /*
@@ -98,6 +140,16 @@ describe("sortBuilders", () => {
       expect(groups[i]).toEqual(expected[i]);
     }
   });
+
+  it("orders builders after the producers of their extra inputs", () => {
+    const b1 = createBuilder("b1", [], ["A"]);
+    const b2 = createBuilder("b2", [], ["B"]);
+
+    expect(sortBuilders([b2, b1], (b) => (b === b2 ? ["A"] : []))).toEqual([
+      [b1],
+      [b2],
+    ]);
+  });
 });
 
 /* -------------------------------------------------- */
@@ -124,6 +176,41 @@ describe("findUnreachableArtifacts", () => {
     expect(new Set(unreachable)).toEqual(new Set(["X", "Y"]));
   });
 
+  it("treats builders requiring exclusive branches as unreachable", () => {
+    // B2 needs A (then-branch) and B3 needs B (else-branch) of the same condition,
+    // so B4, which needs both, can never run.
+    const b1 = createBuilder("B1", [], ["X"]);
+    const b2 = createBuilder("B2", ["X"], ["A"]);
+    const b3 = createBuilder("B3", ["X"], ["B"]);
+    const b4 = createBuilder("B4", ["A", "B"], ["C"]);
+    const cond = { inputs: ["X"], if: () => true, then: ["A"], else: ["B"] };
+
+    expect(findUnreachableArtifacts([b1, b2, b3, b4])).toEqual([]);
+    expect(findUnreachableArtifacts([b1, b2, b3, b4], [cond])).toEqual(["C"]);
+  });
+
+  it("does not require optional inputs to be reachable", () => {
+    const b1 = createBuilder("B1", [], ["A"]);
+    const b2 = {
+      ...createBuilder("B2", ["A"], ["B"]),
+      optionalInputs: () => ["X"],
+    };
+    expect(findUnreachableArtifacts([b1, b2])).toEqual([]);
+  });
+
+  it("does not propagate branches to builders running with skipped inputs", () => {
+    const b1 = createBuilder("B1", [], ["X"]);
+    const b2 = createBuilder("B2", ["X"], ["A"]);
+    const b3 = createBuilder("B3", ["X"], ["B"]);
+    const b4 = {
+      ...createBuilder("B4", ["A", "B"], ["C"]),
+      onSkippedInputs: "run" as const,
+    };
+    const cond = { inputs: ["X"], if: () => true, then: ["A"], else: ["B"] };
+
+    expect(findUnreachableArtifacts([b1, b2, b3, b4], [cond])).toEqual([]);
+  });
+
   it("handles more complex dependency chains", () => {
     // Chain: B1 () -> A ; B2 (A) -> B ; B3 (B, Z) -> C   (Z missing)
     const b1 = createBuilder("B1", [], ["A"]);
@@ -135,3 +222,206 @@ describe("findUnreachableArtifacts", () => {
     expect(new Set(unreachable)).toEqual(new Set(["Z", "C"]));
   });
 });
+
+/* -------------------------------------------------- */
+/*              Tests for findRequiredBuilders         */
+/* -------------------------------------------------- */
+
+describe("findRequiredBuilders", () => {
+  const b1 = createBuilder("B1", [], ["A"]);
+  const b2 = createBuilder("B2", ["A"], ["B"]);
+  const b3 = createBuilder("B3", ["A"], ["C"]);
+  const b4 = createBuilder("B4", [], ["D"]);
+  const b5 = createBuilder("B5", ["B", "D"], ["E"]);
+
+  it("returns transitive producers of the targets in original order", () => {
+    expect(findRequiredBuilders([b1, b2, b3, b4, b5], ["B"])).toEqual([b1, b2]);
+    expect(findRequiredBuilders([b1, b2, b3, b4, b5], ["E", "C"])).toEqual([
+      b1,
+      b2,
+      b3,
+      b4,
+      b5,
+    ]);
+  });
+
+  it("follows extra inputs of builders", () => {
+    const required = findRequiredBuilders([b1, b2, b3, b4, b5], ["C"], (b) =>
+      b === b3 ? ["D"] : []
+    );
+    expect(required).toEqual([b1, b3, b4]);
+  });
+
+  it("includes the producers of optional inputs", () => {
+    const b6 = {
+      ...createBuilder("B6", ["A"], ["F"]),
+      optionalInputs: () => ["D"],
+    };
+    expect(findRequiredBuilders([b1, b4, b6], ["F"])).toEqual([b1, b4, b6]);
+  });
+
+  it("throws when no builder produces a target", () => {
+    expect(() => findRequiredBuilders([b1, b2], ["Z"])).toThrow(
+      'No builder produces target artifact "Z"'
+    );
+  });
+});
+
+/* -------------------------------------------------- */
+/*                Tests for validateGraph              */
+/* -------------------------------------------------- */
+
+describe("validateGraph", () => {
+  it("returns no issues for a valid graph", () => {
+    const b1 = createBuilder("B1", [], ["A"]);
+    const b2 = createBuilder("B2", ["A"], ["B"]);
+    const cond = { inputs: ["A"], if: () => true, then: ["B"] };
+
+    expect(validateGraph(["A", "B"], [b1, b2], [cond])).toEqual([]);
+  });
+
+  it("reports cycles with their path", () => {
+    const b0 = createBuilder("B0", [], ["S"]);
+    const b1 = createBuilder("B1", ["S", "C"], ["A"]);
+    const b2 = createBuilder("B2", ["A"], ["B"]);
+    const b3 = createBuilder("B3", ["B"], ["C"]);
+
+    const issues = validateGraph(["S", "A", "B", "C"], [b0, b1, b2, b3], []);
+    expect(issues[0]).toEqual({
+      type: "cycle",
+      path: ["B1", "B2", "B3", "B1"],
+      message:
+        "Cyclic dependency detected among builders: B1 -> B2 -> B3 -> B1",
+    });
+    // Artifacts on the cycle can never be produced
+    expect(issues[1]).toEqual(
+      expect.objectContaining({
+        type: "unreachable-artifacts",
+        artifacts: ["A", "B", "C"],
+      })
+    );
+  });
+
+  it("reports cycles through the inputs of gating conditions", () => {
+    const b1 = createBuilder("B1", [], ["A"]);
+    const b2 = createBuilder("B2", ["A"], ["B"]);
+    // B1 is gated by a condition on B, which needs A produced by B1
+    const cond = { inputs: ["B"], if: () => true, then: ["A"] };
+
+    expect(validateGraph(["A", "B"], [b1, b2], [cond])).toEqual([
+      {
+        type: "cycle",
+        path: ["B1", "B2", "B1"],
+        message: "Cyclic dependency detected among builders: B1 -> B2 -> B1",
+      },
+    ]);
+  });
+
+  it("reports duplicate producers and builder names", () => {
+    const b1 = createBuilder("B", [], ["A"]);
+    const b2 = createBuilder("B", [], ["A"]);
+
+    expect(validateGraph(["A"], [b1, b2], [])).toEqual([
+      {
+        type: "duplicate-builder-name",
+        builder: "B",
+        message: 'Duplicate builder name "B"',
+      },
+      {
+        type: "duplicate-producer",
+        artifact: "A",
+        builders: ["B", "B"],
+        message: 'Duplicate builders detected for artifact "A": B, B',
+      },
+    ]);
+  });
+
+  it("reports orphan factories and dangling condition references", () => {
+    const b1 = createBuilder("B1", [], ["A"]);
+    const cond = { inputs: ["X"], if: () => true, then: ["A", "Y"] };
+
+    expect(validateGraph(["A", "Z"], [b1], [cond])).toEqual([
+      {
+        type: "orphan-factory",
+        artifact: "Z",
+        message: 'No builder produces artifact "Z"',
+      },
+      {
+        type: "dangling-condition-reference",
+        condition: 0,
+        field: "inputs",
+        artifact: "X",
+        message: 'Condition 1 references unknown artifact "X" in inputs',
+      },
+      {
+        type: "dangling-condition-reference",
+        condition: 0,
+        field: "then",
+        artifact: "Y",
+        message: 'Condition 1 references unknown artifact "Y" in then',
+      },
+    ]);
+  });
+
+  it("reports fallbacks that cannot replace their builder", () => {
+    const b0 = createBuilder("B0", [], ["S"]);
+    const withFallback = (fallback: ArtifactBuilder<any, any>) => ({
+      ...createBuilder("B1", ["S"], ["A", "B"]),
+      onError: { fallback },
+    });
+
+    const valid = createBuilder("F", ["S"], ["B", "A"]);
+    expect(
+      validateGraph(["S", "A", "B"], [b0, withFallback(valid)], [])
+    ).toEqual([]);
+
+    const otherOutputs = createBuilder("F", ["S"], ["A"]);
+    const otherInputs = createBuilder("F", ["S", "X"], ["A", "B"]);
+    expect(
+      validateGraph(["S", "A", "B"], [b0, withFallback(otherOutputs)], []).map(
+        (i) => i.message
+      )
+    ).toEqual(['Fallback "F" of builder "B1" must produce the same outputs']);
+    expect(
+      validateGraph(["S", "A", "B"], [b0, withFallback(otherInputs)], [])
+    ).toEqual([
+      {
+        type: "invalid-fallback",
+        builder: "B1",
+        fallback: "F",
+        message:
+          'Fallback "F" of builder "B1" uses input(s) the builder does not: X',
+      },
+    ]);
+  });
+});
+
+/* -------------------------------------------------- */
+/*                Tests for builderGates               */
+/* -------------------------------------------------- */
+
+describe("builderGates", () => {
+  it("lists the branches overlapping with inputs or outputs", () => {
+    const ifCond = { inputs: ["X"], if: () => true, then: ["A"], else: ["B"] };
+    const switchCond = {
+      inputs: ["X"],
+      switch: () => "k",
+      cases: { k: ["C"], l: ["A"] },
+      default: ["B"],
+    };
+
+    expect(
+      builderGates(createBuilder("b", ["A"], ["C"]), [ifCond, switchCond])
+    ).toEqual([
+      { condition: 0, branch: "then" },
+      { condition: 1, branch: "k" },
+      { condition: 1, branch: "l" },
+    ]);
+    expect(
+      builderGates(createBuilder("b", [], ["B"]), [ifCond, switchCond])
+    ).toEqual([
+      { condition: 0, branch: "else" },
+      { condition: 1, branch: "default" },
+    ]);
+  });
+});
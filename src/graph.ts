@@ -1,22 +1,38 @@
-import { ArtifactBuilder, UniqueArtifact } from "./artifact_graph";
+import {
+  ArtifactBuilder,
+  ArtifactCondition,
+  UniqueArtifact,
+} from "./artifact_graph";
+import type { GraphIssue } from "./errors";
 
-// Sort builders so that required inputs should be calculated before the builder itself.
-// Returns a list of builder groups, where each group is a list of builders that can be executed in parallel, and the following group should be executed after the previous group.
-// Example:
-//   Builder1: (A, B, C) -> E
-//   Builder2: () -> A, B
-//   Builder3: (A) -> C, D
-//   Builder4: (B) -> F
-//
-// Expected output: [[Builder2], [Builder3, Builder4], [Builder1]]
-export const sortBuilders = <All extends readonly UniqueArtifact[]>(
-  builders: ArtifactBuilder<All, any>[]
-): ArtifactBuilder<All, any>[][] => {
-  const remaining = [...builders];
+// Inputs a builder waits for: its required inputs, followed by its optional inputs.
+export const builderInputs = <All extends readonly UniqueArtifact[]>(
+  builder: ArtifactBuilder<All, any>
+): readonly string[] => [
+  ...(builder.inputs() as readonly string[]),
+  ...((builder.optionalInputs?.() ?? []) as readonly string[]),
+];
+
+// Builder executed instead of `builder` when it fails, if its error policy names one.
+export const fallbackOf = <All extends readonly UniqueArtifact[]>(
+  builder: ArtifactBuilder<All, any>
+): ArtifactBuilder<All, any> | undefined =>
+  typeof builder.onError === "object" ? builder.onError.fallback : undefined;
 
+// Map each builder to the set of builders that produce its (required or optional) inputs.
+// `extraInputs` declares additional artifacts a builder needs before it executes
+// (e.g. inputs of the conditions gating it).
+// Inputs that no builder in the list produces are ignored (they are expected to exist already).
+// Throws when more than one builder produces the same artifact.
+export const builderDependencies = <All extends readonly UniqueArtifact[]>(
+  builders: ArtifactBuilder<All, any>[],
+  extraInputs: (
+    builder: ArtifactBuilder<All, any>
+  ) => readonly string[] = () => []
+): Map<ArtifactBuilder<All, any>, Set<ArtifactBuilder<All, any>>> => {
   // Map each artifact id to the builder that creates it
   const outputToBuilder = new Map<string, ArtifactBuilder<All, any>>();
-  for (const builder of remaining) {
+  for (const builder of builders) {
     const outs = builder.outputs() as readonly string[];
     for (const o of outs) {
       if (outputToBuilder.has(o)) {
@@ -31,10 +47,9 @@ export const sortBuilders = <All extends readonly UniqueArtifact[]>(
     ArtifactBuilder<All, any>,
     Set<ArtifactBuilder<All, any>>
   >();
-  for (const builder of remaining) {
+  for (const builder of builders) {
     const req = new Set<ArtifactBuilder<All, any>>();
-    const ins = builder.inputs() as readonly string[];
-    for (const i of ins) {
+    for (const i of [...builderInputs(builder), ...extraInputs(builder)]) {
       const depBuilder = outputToBuilder.get(i);
       // A builder cannot depend on itself
       if (depBuilder && depBuilder !== builder) {
@@ -44,6 +59,26 @@ export const sortBuilders = <All extends readonly UniqueArtifact[]>(
     deps.set(builder, req);
   }
 
+  return deps;
+};
+
+// Sort builders so that required inputs should be calculated before the builder itself.
+// Returns a list of builder groups, where each group is a list of builders that can be executed in parallel, and the following group should be executed after the previous group.
+// Example:
+//   Builder1: (A, B, C) -> E
+//   Builder2: () -> A, B
+//   Builder3: (A) -> C, D
+//   Builder4: (B) -> F
+//
+// Expected output: [[Builder2], [Builder3, Builder4], [Builder1]]
+// `extraInputs` is passed to `builderDependencies`.
+export const sortBuilders = <All extends readonly UniqueArtifact[]>(
+  builders: ArtifactBuilder<All, any>[],
+  extraInputs?: (builder: ArtifactBuilder<All, any>) => readonly string[]
+): ArtifactBuilder<All, any>[][] => {
+  const remaining = [...builders];
+  const deps = builderDependencies(remaining, extraInputs);
+
   const result: ArtifactBuilder<All, any>[][] = [];
 
   // Kahn style topological grouping
@@ -79,8 +114,13 @@ export const sortBuilders = <All extends readonly UniqueArtifact[]>(
 };
 
 // Calculate reachable artifacts starting from builders that require no inputs.
+// Optional inputs are not required, so they do not affect reachability.
+// When conditions are given, a builder that would need two different branches of the
+// same condition to be taken (directly or through its inputs) can never execute,
+// so its outputs are unreachable as well.
 export const findUnreachableArtifacts = <All extends readonly UniqueArtifact[]>(
-  builders: ArtifactBuilder<All, any>[]
+  builders: ArtifactBuilder<All, any>[],
+  conditions: ArtifactCondition<All, any, any>[] = []
 ): string[] => {
   // Collect all inputs & outputs for later comparison
   const allOutputs = new Set<string>();
@@ -93,6 +133,8 @@ export const findUnreachableArtifacts = <All extends readonly UniqueArtifact[]>(
   // Kahn‑like reachability analysis: start from builders with no inputs.
   const reachable = new Set<string>();
   const remaining = new Set(builders);
+  // Branches that must be taken for each reachable artifact to exist (condition index -> branch)
+  const requiredBranches = new Map<string, Map<number, string>>();
 
   let advanced = true;
   while (advanced) {
@@ -100,11 +142,33 @@ export const findUnreachableArtifacts = <All extends readonly UniqueArtifact[]>(
     for (const b of Array.from(remaining)) {
       const ins = b.inputs() as readonly string[];
       if (ins.every((i) => reachable.has(i))) {
-        // This builder can be executed; mark its outputs as reachable.
-        for (const o of b.outputs() as readonly string[])
-          reachable.add(String(o));
         remaining.delete(b);
         advanced = true;
+
+        // Merge the branches required by the inputs and by the builder's own gates
+        // (builders running with skipped inputs do not depend on the inputs' branches)
+        const gates: (readonly [number, string])[] = [
+          ...(b.onSkippedInputs === "run"
+            ? []
+            : ins.flatMap((i) => Array.from(requiredBranches.get(i) ?? []))),
+          ...builderGates(b, conditions).map(
+            (g) => [g.condition, g.branch] as const
+          ),
+        ];
+        const branches = new Map<number, string>();
+        let exclusive = false;
+        for (const [condition, branch] of gates) {
+          const taken = branches.get(condition);
+          if (taken !== undefined && taken !== branch) exclusive = true;
+          branches.set(condition, branch);
+        }
+        if (exclusive) continue;
+
+        // This builder can be executed; mark its outputs as reachable.
+        for (const o of b.outputs() as readonly string[]) {
+          reachable.add(String(o));
+          requiredBranches.set(String(o), branches);
+        }
       }
     }
   }
@@ -120,3 +184,260 @@ export const findUnreachableArtifacts = <All extends readonly UniqueArtifact[]>(
   }
   return unreachable;
 };
+
+// Collect the builders needed to produce the target artifacts: their producers and,
+// transitively, the producers of every input those builders need.
+// `extraInputs` declares additional artifacts a builder needs besides its inputs
+// (e.g. inputs of the conditions gating it).
+// Returns builders in their original order; throws when no builder produces a target.
+export const findRequiredBuilders = <All extends readonly UniqueArtifact[]>(
+  builders: ArtifactBuilder<All, any>[],
+  targets: readonly string[],
+  extraInputs: (
+    builder: ArtifactBuilder<All, any>
+  ) => readonly string[] = () => []
+): ArtifactBuilder<All, any>[] => {
+  const outputToBuilder = new Map<string, ArtifactBuilder<All, any>>();
+  for (const b of builders) {
+    for (const o of b.outputs() as readonly string[]) outputToBuilder.set(o, b);
+  }
+
+  const required = new Set<ArtifactBuilder<All, any>>();
+  const visited = new Set<string>();
+  const stack = [...targets];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    const producer = outputToBuilder.get(id);
+    if (!producer) {
+      if (targets.includes(id)) {
+        throw new Error(`No builder produces target artifact "${id}"`);
+      }
+      continue;
+    }
+    if (required.has(producer)) continue;
+
+    required.add(producer);
+    stack.push(...builderInputs(producer));
+    stack.push(...extraInputs(producer));
+  }
+
+  return builders.filter((b) => required.has(b));
+};
+
+// Report every structural problem of the graph at once:
+// duplicate builder names, duplicate producers, cycles (with their path),
+// factories no builder produces, conditions referencing unknown artifacts, unreachable artifacts
+// and fallbacks that cannot replace their builder.
+export const validateGraph = <All extends readonly UniqueArtifact[]>(
+  artifactIds: readonly string[],
+  builders: ArtifactBuilder<All, any>[],
+  conditions: ArtifactCondition<All, any, any>[]
+): GraphIssue[] => {
+  const issues: GraphIssue[] = [];
+
+  // Duplicate builder names
+  const seenNames = new Set<string>();
+  const duplicateNames = new Set<string>();
+  for (const b of builders) {
+    if (seenNames.has(b.name)) duplicateNames.add(b.name);
+    seenNames.add(b.name);
+  }
+  for (const name of duplicateNames) {
+    issues.push({
+      type: "duplicate-builder-name",
+      builder: name,
+      message: `Duplicate builder name "${name}"`,
+    });
+  }
+
+  // Duplicate producers
+  const producers = new Map<string, ArtifactBuilder<All, any>[]>();
+  for (const b of builders) {
+    for (const o of b.outputs() as readonly string[]) {
+      producers.set(o, [...(producers.get(o) ?? []), b]);
+    }
+  }
+  for (const [artifact, bs] of producers) {
+    if (bs.length > 1) {
+      const names = bs.map((b) => b.name);
+      issues.push({
+        type: "duplicate-producer",
+        artifact,
+        builders: names,
+        message: `Duplicate builders detected for artifact "${artifact}": ${names.join(
+          ", "
+        )}`,
+      });
+    }
+  }
+
+  // Cycles: depth-first search along producer -> consumer edges.
+  // Builders also consume the inputs of the conditions gating them, as in `sortBuilders`.
+  const consumers = new Map<
+    ArtifactBuilder<All, any>,
+    ArtifactBuilder<All, any>[]
+  >();
+  for (const b of builders) {
+    const gateInputs = builderGates(b, conditions).flatMap(
+      ({ condition }) => conditions[condition].inputs as readonly string[]
+    );
+    for (const i of new Set([...builderInputs(b), ...gateInputs])) {
+      for (const p of producers.get(i) ?? []) {
+        if (p !== b) consumers.set(p, [...(consumers.get(p) ?? []), b]);
+      }
+    }
+  }
+  const visited = new Map<ArtifactBuilder<All, any>, "visiting" | "done">();
+  const path: ArtifactBuilder<All, any>[] = [];
+  const visit = (b: ArtifactBuilder<All, any>) => {
+    visited.set(b, "visiting");
+    path.push(b);
+    for (const c of consumers.get(b) ?? []) {
+      if (visited.get(c) === "visiting") {
+        const cycle = [...path.slice(path.indexOf(c)), c].map((x) => x.name);
+        issues.push({
+          type: "cycle",
+          path: cycle,
+          message: `Cyclic dependency detected among builders: ${cycle.join(
+            " -> "
+          )}`,
+        });
+      } else if (!visited.has(c)) {
+        visit(c);
+      }
+    }
+    path.pop();
+    visited.set(b, "done");
+  };
+  for (const b of builders) {
+    if (!visited.has(b)) visit(b);
+  }
+
+  // Factories without a producing builder
+  for (const artifact of artifactIds) {
+    if (!producers.has(artifact)) {
+      issues.push({
+        type: "orphan-factory",
+        artifact,
+        message: `No builder produces artifact "${artifact}"`,
+      });
+    }
+  }
+
+  // Conditions referencing unknown artifacts
+  conditions.forEach((cond, condition) => {
+    const references = [
+      { field: "inputs", artifacts: cond.inputs as readonly string[] },
+      ...conditionBranches(cond).map(({ branch, artifacts }) => ({
+        field: branch,
+        artifacts,
+      })),
+    ];
+    for (const { field, artifacts } of references) {
+      for (const artifact of artifacts) {
+        if (!artifactIds.includes(artifact)) {
+          issues.push({
+            type: "dangling-condition-reference",
+            condition,
+            field,
+            artifact,
+            message: `Condition ${
+              condition + 1
+            } references unknown artifact "${artifact}" in ${field}`,
+          });
+        }
+      }
+    }
+  });
+
+  // Fallbacks must produce the same outputs from inputs available to the builder they replace
+  for (const b of builders) {
+    const outputs = b.outputs() as readonly string[];
+    const inputs = builderInputs(b);
+    const seen = new Set([b]);
+    for (
+      let fallback = fallbackOf(b);
+      fallback && !seen.has(fallback);
+      fallback = fallbackOf(fallback)
+    ) {
+      seen.add(fallback);
+      const fallbackOutputs = fallback.outputs() as readonly string[];
+      const sameOutputs =
+        fallbackOutputs.length === outputs.length &&
+        fallbackOutputs.every((o) => outputs.includes(o));
+      const extraInputs = builderInputs(fallback).filter(
+        (i) => !inputs.includes(i)
+      );
+      if (!sameOutputs || extraInputs.length > 0) {
+        issues.push({
+          type: "invalid-fallback",
+          builder: b.name,
+          fallback: fallback.name,
+          message: sameOutputs
+            ? `Fallback "${fallback.name}" of builder "${
+                b.name
+              }" uses input(s) the builder does not: ${extraInputs.join(", ")}`
+            : `Fallback "${fallback.name}" of builder "${b.name}" must produce the same outputs`,
+        });
+      }
+    }
+  }
+
+  const unreachable = findUnreachableArtifacts(builders, conditions);
+  if (unreachable.length > 0) {
+    issues.push({
+      type: "unreachable-artifacts",
+      artifacts: unreachable,
+      message: `Unreachable artifact(s): ${unreachable.join(", ")}`,
+    });
+  }
+
+  return issues;
+};
+
+// List the branches of a condition with the artifacts each of them gates.
+// Branches are identified by "then" / "else" for `if` conditions,
+// and by the case key (or "default") for `switch` conditions.
+export const conditionBranches = <All extends readonly UniqueArtifact[]>(
+  cond: ArtifactCondition<All, any, any>
+): { branch: string; artifacts: readonly string[] }[] => {
+  if ("switch" in cond) {
+    return [
+      ...Object.entries(cond.cases).map(([branch, artifacts]) => ({
+        branch,
+        artifacts: artifacts as readonly string[],
+      })),
+      {
+        branch: "default",
+        artifacts: (cond.default ?? []) as readonly string[],
+      },
+    ];
+  }
+  return [
+    { branch: "then", artifacts: cond.then as readonly string[] },
+    { branch: "else", artifacts: (cond.else ?? []) as readonly string[] },
+  ];
+};
+
+// List the condition branches gating a builder, i.e. whose artifacts overlap with
+// the builder's inputs or outputs. The builder only executes when all of them are taken.
+// Builders running with skipped inputs (`onSkippedInputs: "run"`) are only gated by their outputs.
+export const builderGates = <All extends readonly UniqueArtifact[]>(
+  builder: ArtifactBuilder<All, any>,
+  conditions: ArtifactCondition<All, any, any>[]
+): { condition: number; branch: string }[] => {
+  const ids = [
+    ...(builder.onSkippedInputs === "run"
+      ? []
+      : (builder.inputs() as readonly string[])),
+    ...(builder.outputs() as readonly string[]),
+  ];
+  return conditions.flatMap((cond, condition) =>
+    conditionBranches(cond)
+      .filter(({ artifacts }) => ids.some((id) => artifacts.includes(id)))
+      .map(({ branch }) => ({ condition, branch }))
+  );
+};
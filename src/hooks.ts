@@ -0,0 +1,54 @@
+import { schema } from "@ryukez/a2a-sdk";
+import type { ExecutionPlan } from "./artifact_graph";
+
+type Hook<E> = (event: E) => void | Promise<void>;
+
+/**
+ * Callbacks notified of the lifecycle of a run, e.g. to feed metrics and logs
+ * without parsing the text of `working` messages. Hooks are awaited, and an
+ * error thrown by a hook fails the run.
+ */
+export type ArtifactGraphHooks = {
+  /** Called before any builder executes, with the plan the run follows */
+  onPlan?: Hook<ExecutionPlan>;
+  /**
+   * Called when a scheduled builder does not execute:
+   * - `"calculated"`: all of its outputs already exist
+   * - `"condition"`: a condition gating it took another branch
+   * - `"skipped-inputs"`: some of its inputs were skipped by conditions
+   * - `"failed-inputs"`: some of its inputs failed to build (`onError: "continue"`)
+   */
+  onBuilderSkip?: Hook<{
+    builder: string;
+    reason: "calculated" | "condition" | "skipped-inputs" | "failed-inputs";
+  }>;
+  onBuilderStart?: Hook<{ builder: string }>;
+  /**
+   * Called when an executed builder ends:
+   * - `"completed"`: it built its outputs
+   * - `"cached"`: its outputs were reused from its cache
+   * - `"paused"`: it requested user input
+   * - `"failed"`: it threw `error` (after retries)
+   */
+  onBuilderEnd?: Hook<{
+    builder: string;
+    durationMs: number;
+    status: "completed" | "cached" | "paused" | "failed";
+    error?: unknown;
+  }>;
+  /** Called for every complete artifact a builder produced (streamed chunks are assembled first) */
+  onArtifact?: Hook<{ builder: string; id: string; artifact: schema.Artifact }>;
+  /** Called when a condition's branch is decided, `recorded` when reused from a previous run */
+  onConditionEvaluated?: Hook<{
+    condition: number;
+    branch: string;
+    recorded: boolean;
+  }>;
+  /** Called for every failed build attempt, with whether it is retried */
+  onError?: Hook<{
+    builder: string;
+    error: unknown;
+    attempt: number;
+    willRetry: boolean;
+  }>;
+};
@@ -1,2 +1,9 @@
 export * from "./artifact_graph";
 export * from "./artifact";
+export * from "./errors";
+export * from "./fan_out";
+export * from "./store";
+export * from "./cache";
+export * from "./hooks";
+export * from "./tracing";
+export * from "./provenance";
@@ -0,0 +1,65 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { traceLineage } from "./provenance";
+
+const artifact = (
+  id: string,
+  inputs: string[] | undefined,
+  extra: Partial<schema.Artifact> = {}
+): schema.Artifact => ({
+  parts: [{ type: "text", text: id }],
+  ...extra,
+  metadata: {
+    "artifactGraph.id": id,
+    ...(inputs && {
+      "artifactGraph.provenance": {
+        builder: `build ${id}`,
+        inputs: inputs.map((i) => ({ id: i, fingerprint: "f" })),
+        startedAt: "2026-01-01T00:00:00.000Z",
+        endedAt: "2026-01-01T00:00:01.000Z",
+        attempts: 1,
+      },
+    }),
+  },
+});
+
+describe("traceLineage", () => {
+  it("follows the inputs recorded in provenance", () => {
+    const lineage = traceLineage(
+      [
+        artifact("query", undefined),
+        artifact("search", ["query"]),
+        artifact("summary", ["query", "search"]),
+      ],
+      "summary"
+    )!;
+
+    expect(lineage.provenance?.builder).toBe("build summary");
+    expect(lineage.inputs.map((n) => n.id)).toEqual(["query", "search"]);
+    const [query, search] = lineage.inputs;
+    expect(query.provenance).toBeUndefined();
+    expect(query.inputs).toEqual([]);
+    // Shared ancestors are the same node
+    expect(search.inputs[0]).toBe(query);
+  });
+
+  it("uses the latest version of each artifact and assembles chunks", () => {
+    const lineage = traceLineage(
+      [
+        artifact("a", undefined),
+        artifact("b", []),
+        artifact("b", ["a"], { lastChunk: false }),
+        artifact("b", ["a"], { append: true, lastChunk: true }),
+      ],
+      "b"
+    )!;
+
+    expect(lineage.artifact.parts).toHaveLength(2);
+    expect(lineage.inputs.map((n) => n.id)).toEqual(["a"]);
+  });
+
+  it("skips inputs that are not in the task", () => {
+    const lineage = traceLineage([artifact("b", ["a"])], "b")!;
+    expect(lineage.inputs).toEqual([]);
+    expect(traceLineage([], "b")).toBeUndefined();
+  });
+});
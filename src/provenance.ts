@@ -0,0 +1,70 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { assembleChunks } from "./chunks";
+
+/**
+ * How an artifact was made, stamped by `run` on every produced artifact as
+ * `metadata["artifactGraph.provenance"]`.
+ */
+export type Provenance = {
+  builder: string;
+  version?: string;
+  /** Input artifacts the builder received, with the fingerprint of their parts */
+  inputs: { id: string; fingerprint: string }[];
+  /** When the build attempt producing the artifact started (ISO 8601) */
+  startedAt: string;
+  /** When the artifact was yielded (ISO 8601) */
+  endedAt: string;
+  /** Number of attempts the builder took, including the successful one */
+  attempts: number;
+};
+
+/** Node of the upstream chain of an artifact, as returned by `ArtifactGraph.lineage` */
+export type LineageNode = {
+  id: string;
+  artifact: schema.Artifact;
+  /** Undefined when the artifact was not produced by a builder, e.g. provided with the task */
+  provenance?: Provenance;
+  /** Lineage of the inputs the artifact was built from that are still in the task */
+  inputs: LineageNode[];
+};
+
+/**
+ * Reconstructs the upstream chain of the artifact `id` from the provenance
+ * recorded in `artifacts`, or returns undefined when there is no such artifact.
+ * The latest version of each artifact is used, and nodes of artifacts shared by
+ * several descendants are the same object.
+ */
+export const traceLineage = (
+  artifacts: schema.Artifact[],
+  id: string
+): LineageNode | undefined => {
+  const latest = new Map<string, schema.Artifact>();
+  for (const artifact of assembleChunks(
+    artifacts,
+    ({ metadata }) => metadata?.["artifactGraph.id"]
+  )) {
+    const artifactId = artifact.metadata?.["artifactGraph.id"];
+    if (typeof artifactId === "string") latest.set(artifactId, artifact);
+  }
+
+  const nodes = new Map<string, LineageNode>();
+  const visit = (id: string): LineageNode | undefined => {
+    const artifact = latest.get(id);
+    if (!artifact) return undefined;
+    if (nodes.has(id)) return nodes.get(id);
+
+    const provenance = artifact.metadata?.["artifactGraph.provenance"] as
+      | Provenance
+      | undefined;
+    const node: LineageNode = { id, artifact, provenance, inputs: [] };
+    // Registered before visiting the inputs, so malformed provenance cannot recurse forever
+    nodes.set(id, node);
+    for (const input of provenance?.inputs ?? []) {
+      const inputNode = visit(input.id);
+      if (inputNode) node.inputs.push(inputNode);
+    }
+    return node;
+  };
+
+  return visit(id);
+};
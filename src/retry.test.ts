@@ -0,0 +1,53 @@
+import { retryDelay, withTimeout } from "./retry";
+
+describe("retryDelay", () => {
+  it("grows exponentially from the initial delay", () => {
+    const policy = { maxAttempts: 5, initialDelayMs: 100, backoffFactor: 3 };
+    expect([1, 2, 3].map((a) => retryDelay(policy, a))).toEqual([
+      100, 300, 900,
+    ]);
+  });
+
+  it("is capped by maxDelayMs", () => {
+    const policy = { maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 250 };
+    expect([1, 2, 3].map((a) => retryDelay(policy, a))).toEqual([
+      100, 200, 250,
+    ]);
+  });
+});
+
+describe("withTimeout", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it("forwards values of generators that complete in time", async () => {
+    const gen = async function* () {
+      yield 1;
+      await sleep(1);
+      yield 2;
+    };
+
+    const out: number[] = [];
+    for await (const v of withTimeout(gen(), 50, () => new Error("late"))) {
+      out.push(v);
+    }
+    expect(out).toEqual([1, 2]);
+  });
+
+  it("fails with the created error when the deadline passes", async () => {
+    const gen = async function* () {
+      yield 1;
+      await sleep(50);
+      yield 2;
+    };
+
+    const out: number[] = [];
+    await expect(
+      (async () => {
+        for await (const v of withTimeout(gen(), 10, () => new Error("late"))) {
+          out.push(v);
+        }
+      })()
+    ).rejects.toThrow("late");
+    expect(out).toEqual([1]);
+  });
+});
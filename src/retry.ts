@@ -0,0 +1,60 @@
+import type { RetryPolicy } from "./artifact_graph";
+
+/**
+ * Returns the delay in ms before retrying after the given (1-based) failed attempt,
+ * growing exponentially from `initialDelayMs` and capped at `maxDelayMs`.
+ */
+export const retryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const {
+    initialDelayMs = 1000,
+    backoffFactor = 2,
+    maxDelayMs = Infinity,
+  } = policy;
+  return Math.min(initialDelayMs * backoffFactor ** (attempt - 1), maxDelayMs);
+};
+
+/** Waits for `ms`, resolving early when `signal` is aborted */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+
+/**
+ * Forwards values of `gen` until it completes, failing with the error returned by
+ * `createError` when it does not complete within `timeoutMs`.
+ * A generator that did not complete is closed in the background.
+ */
+export async function* withTimeout<T>(
+  gen: AsyncGenerator<T, unknown, unknown>,
+  timeoutMs: number | undefined,
+  createError: () => Error
+): AsyncGenerator<T, void, unknown> {
+  if (timeoutMs === undefined) {
+    yield* gen;
+    return;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(createError()), timeoutMs);
+  });
+
+  try {
+    while (true) {
+      const result = await Promise.race([gen.next(), expired]);
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    clearTimeout(timer);
+    // Close the generator when it did not complete (timeout or early return)
+    gen.return(undefined).catch(() => {});
+  }
+}
@@ -43,6 +43,7 @@ const step1Builder = defineBuilder<Artifacts>()({
   name: "Step 1",
   inputs: () => [] as const,
   outputs: () => ["step1"] as const,
+  retry: { maxAttempts: 3, initialDelayMs: 100 },
   async *build({ history }) {
     assert(history && history[0].parts[0].type === "text");
     const input = parseFloat(history[0].parts[0].text);
@@ -63,6 +64,7 @@ const step2Builder = defineBuilder<Artifacts>()({
   name: "Step 2",
   inputs: () => ["step1"] as const,
   outputs: () => ["step2"] as const,
+  retry: { maxAttempts: 3, initialDelayMs: 100 },
   async *build({ inputs }) {
     if (Math.random() < 0.8) {
       throw new Error("Randomly failed in step2");
@@ -80,6 +82,7 @@ const step3Builder = defineBuilder<Artifacts>()({
   name: "Step 3",
   inputs: () => ["step2"] as const,
   outputs: () => ["step3"] as const,
+  retry: { maxAttempts: 3, initialDelayMs: 100 },
   async *build({ inputs }) {
     if (Math.random() < 0.8) {
       throw new Error("Randomly failed in step3");
@@ -0,0 +1,53 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileArtifactStore, MemoryArtifactStore } from "./store";
+
+const artifact = (text: string): schema.Artifact => ({
+  parts: [{ type: "text", text }],
+  metadata: { "artifactGraph.id": text },
+});
+
+describe("MemoryArtifactStore", () => {
+  it("loads the artifacts saved for a task in order", async () => {
+    const store = new MemoryArtifactStore();
+    await store.save("t1", artifact("a"));
+    await store.save("t2", artifact("x"));
+    await store.save("t1", artifact("b"));
+
+    expect(await store.load("t1")).toEqual([artifact("a"), artifact("b")]);
+    expect(await store.load("unknown")).toEqual([]);
+  });
+});
+
+describe("FileArtifactStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "artifact-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("loads the artifacts saved for a task in order", async () => {
+    const store = new FileArtifactStore(path.join(directory, "nested"));
+    await store.save("t/1", artifact("a"));
+    await store.save("t2", artifact("x"));
+    await store.save("t/1", artifact("b"));
+
+    const reopened = new FileArtifactStore(path.join(directory, "nested"));
+    expect(await reopened.load("t/1")).toEqual([artifact("a"), artifact("b")]);
+    expect(await reopened.load("unknown")).toEqual([]);
+  });
+
+  it("ignores a line left incomplete by a crash", async () => {
+    const store = new FileArtifactStore(directory);
+    await store.save("t1", artifact("a"));
+    await fs.appendFile(path.join(directory, "t1.jsonl"), '{"parts": [');
+
+    expect(await store.load("t1")).toEqual([artifact("a")]);
+  });
+});
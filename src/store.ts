@@ -0,0 +1,65 @@
+import { schema } from "@ryukez/a2a-sdk";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/**
+ * Persists the artifacts produced by `ArtifactGraph.run`, so that a task can be
+ * resumed even when the A2A server's task store drops or truncates artifacts.
+ */
+export interface ArtifactStore {
+  /** Returns the artifacts saved for the task, in the order they were saved */
+  load(taskId: string): Promise<schema.Artifact[]>;
+  /** Saves an artifact produced for the task */
+  save(taskId: string, artifact: schema.Artifact): Promise<void>;
+}
+
+/** Keeps artifacts in memory, e.g. for tests or single-process servers */
+export class MemoryArtifactStore implements ArtifactStore {
+  private readonly artifacts = new Map<string, schema.Artifact[]>();
+
+  async load(taskId: string): Promise<schema.Artifact[]> {
+    return [...(this.artifacts.get(taskId) ?? [])];
+  }
+
+  async save(taskId: string, artifact: schema.Artifact): Promise<void> {
+    this.artifacts.set(taskId, [
+      ...(this.artifacts.get(taskId) ?? []),
+      artifact,
+    ]);
+  }
+}
+
+/**
+ * Stores artifacts on the filesystem, as one JSON Lines file per task in `directory`.
+ * A line left incomplete by a crash is ignored when loading.
+ */
+export class FileArtifactStore implements ArtifactStore {
+  constructor(private readonly directory: string) {}
+
+  async load(taskId: string): Promise<schema.Artifact[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file(taskId), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+
+    return content.split("\n").flatMap((line) => {
+      try {
+        return line ? [JSON.parse(line) as schema.Artifact] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  async save(taskId: string, artifact: schema.Artifact): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.file(taskId), JSON.stringify(artifact) + "\n");
+  }
+
+  private file(taskId: string) {
+    return path.join(this.directory, `${encodeURIComponent(taskId)}.jsonl`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MemoryTracer } from "./tracing";
+
+describe("MemoryTracer", () => {
+  it("records spans with their parent, attributes and status", () => {
+    const tracer = new MemoryTracer();
+    const root = tracer.startSpan("root", { attributes: { a: 1 } });
+    const child = tracer.startSpan("child", { parent: root });
+    child.setAttribute("b", ["x", "y"]);
+    child.setStatus({ code: 2, message: "boom" });
+    child.recordException(new Error("boom"));
+    child.end();
+
+    expect(tracer.spans).toEqual([root, child]);
+    expect(tracer.children(root)).toEqual([child]);
+    expect(root.attributes).toEqual({ a: 1 });
+    expect(child.attributes).toEqual({ b: ["x", "y"] });
+    expect(child.status).toEqual({ code: 2, message: "boom" });
+    expect(child.exceptions).toHaveLength(1);
+    expect(child.endTime).toBeGreaterThanOrEqual(child.startTime);
+    expect(root.endTime).toBeUndefined();
+  });
+
+  it("keeps the first end time", async () => {
+    const tracer = new MemoryTracer();
+    const span = tracer.startSpan("span", {});
+    span.end();
+    const endTime = span.endTime;
+    await new Promise((r) => setTimeout(r, 5));
+    span.end();
+    expect(span.endTime).toBe(endTime);
+  });
+});
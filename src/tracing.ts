@@ -0,0 +1,77 @@
+export type SpanAttributeValue = string | number | boolean | string[];
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Span of a run, a builder or a condition. This is the subset of the
+ * OpenTelemetry `Span` API used by the graph, so OpenTelemetry spans can be
+ * returned by a `Tracer` as is.
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  recordException(exception: unknown): void;
+  /** `code` follows OpenTelemetry's `SpanStatusCode` (2 = error) */
+  setStatus(status: { code: number; message?: string }): void;
+  end(): void;
+}
+
+/**
+ * Creates the spans of a run: a root span per run, with child spans per
+ * builder and condition.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options: { parent?: Span; attributes?: SpanAttributes }
+  ): Span;
+}
+
+/** Span recorded by a `MemoryTracer` */
+export class MemorySpan implements Span {
+  readonly startTime = Date.now();
+  endTime?: number;
+  status?: { code: number; message?: string };
+  readonly exceptions: unknown[] = [];
+
+  constructor(
+    readonly name: string,
+    readonly parent: MemorySpan | undefined,
+    readonly attributes: SpanAttributes
+  ) {}
+
+  setAttribute(key: string, value: SpanAttributeValue): void {
+    this.attributes[key] = value;
+  }
+
+  recordException(exception: unknown): void {
+    this.exceptions.push(exception);
+  }
+
+  setStatus(status: { code: number; message?: string }): void {
+    this.status = status;
+  }
+
+  end(): void {
+    this.endTime ??= Date.now();
+  }
+}
+
+/** Keeps spans in memory in the order they were started, e.g. to inspect them in tests */
+export class MemoryTracer implements Tracer {
+  readonly spans: MemorySpan[] = [];
+
+  startSpan(
+    name: string,
+    options: { parent?: Span; attributes?: SpanAttributes }
+  ): MemorySpan {
+    const span = new MemorySpan(name, options.parent as MemorySpan, {
+      ...options.attributes,
+    });
+    this.spans.push(span);
+    return span;
+  }
+
+  /** Returns the spans started with `parent` as their parent */
+  children(parent: MemorySpan): MemorySpan[] {
+    return this.spans.filter((s) => s.parent === parent);
+  }
+}